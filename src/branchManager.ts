@@ -1,7 +1,16 @@
 import chalk from 'chalk';
-import { ThoughtBranch, ThoughtData, Insight, CrossReference, InsightType, CrossRefType, BranchingThoughtInput, ThoughtLink, CodeSnippet, TaskItem, ReviewSuggestion, VisualizationData, VisualizationNode, VisualizationEdge, ExternalSearchResult, Profile, VisualizationOptions } from './types.js';
+import { BranchState, BranchStateChange, ThoughtBranch, ThoughtData, Insight, CrossReference, InsightType, CrossRefType, BranchingThoughtInput, ThoughtLink, CodeSnippet, TaskItem, ReviewSuggestion, VisualizationData, VisualizationNode, VisualizationEdge, ExternalSearchResult, Profile, VisualizationOptions, WorkspaceSnapshot, WorkspaceBundle, ImportReport, MergeReport, MergeStrategy, BranchDiff, BranchRollup, BranchTreeNode, DeleteReport, DeleteThoughtReport, ThoughtRevision, UndoState, ThoughtBelief, BeliefReport, LinkSuggestion, RejectedLink, ThoughtLinks, IntegrityReport, QueryResult, ThoughtQueryHit, ProfileSettings, ScoringWeights, ThoughtTypeDefinition, TypeStrictness, Keyphrase, TopicReport, TopicComparison, SynthesisFinding, SynthesisReport, InsightFeedbackAction, SentimentPoint, SentimentTimeline } from './types.js';
 import { pipeline, FeatureExtractionPipeline } from '@xenova/transformers';
 import { LRUCache } from 'lru-cache';
+import { StorageAdapter, EmbeddingCacheEntries, WORKSPACE_SNAPSHOT_VERSION, reviveSnapshot } from './storage.js';
+import { OutlineSection, OutlineItem, slugify } from './importer.js';
+import { detectStance } from './stance.js';
+import { parseQuery, parseQueryTime, compareNumber, QueryTerm, QuerySortField } from './query.js';
+import { ThoughtTypeRegistry, TYPE_STRICTNESS } from './thoughtTypes.js';
+import { InsightEngine, InsightAnalyzer, InsightCandidate } from './insightEngine.js';
+import { DocumentFrequencies, extractKeyphrases, rankTopics, topicWeights, DEFAULT_TOPIC_LIMIT } from './keyphrases.js';
+import { scoreSentiment, sentimentLabel, sentimentTrend } from './sentiment.js';
+import { TASK_PATTERN } from './tasks.js';
 
 /**
  * Embedding cache for node/thought embeddings.
@@ -17,7 +26,156 @@ const EMBEDDING_CACHE_MAX = 1000;
 const SUMMARY_CACHE_TTL = 1000 * 60 * 5; // 5 minutes
 const SUMMARY_CACHE_MAX = 100;
 
-import * as _ from 'lodash';
+/**
+ * Allowed branch lifecycle transitions. Completed and dead-end branches must be
+ * resumed (back to active) before they can be suspended, completed or abandoned again.
+ */
+export const BRANCH_TRANSITIONS: Record<BranchState, BranchState[]> = {
+  active: ['suspended', 'completed', 'dead_end'],
+  suspended: ['active', 'completed', 'dead_end'],
+  completed: ['active'],
+  dead_end: ['active']
+};
+export const BRANCH_STATES: BranchState[] = ['active', 'suspended', 'completed', 'dead_end'];
+
+// Text present in both lists, only the first, or only the second (case-insensitive, first spelling wins)
+function compareTextSets(left: string[], right: string[]): { shared: string[]; onlyLeft: string[]; onlyRight: string[] } {
+  const index = (items: string[]) => {
+    const map = new Map<string, string>();
+    items.forEach(item => {
+      const key = item.trim().toLowerCase();
+      if (key && !map.has(key)) map.set(key, item.trim());
+    });
+    return map;
+  };
+  const l = index(left);
+  const r = index(right);
+  return {
+    shared: Array.from(l.entries()).filter(([k]) => r.has(k)).map(([, v]) => v),
+    onlyLeft: Array.from(l.entries()).filter(([k]) => !r.has(k)).map(([, v]) => v),
+    onlyRight: Array.from(r.entries()).filter(([k]) => !l.has(k)).map(([, v]) => v)
+  };
+}
+
+// Cosine similarity at which diff-branches pairs two thoughts as the same conclusion
+const DIFF_PAIR_THRESHOLD = 0.8;
+// Cosine similarity at which merge-branches treats two thoughts as near-duplicates
+const MERGE_DUPLICATE_THRESHOLD = 0.9;
+export const MERGE_STRATEGIES: MergeStrategy[] = ['keep', 'merge', 'drop'];
+
+// Cosine similarity from which two thoughts are checked for a contradiction, and the higher
+// bar for suggesting that they support each other
+const SUGGEST_CONTRADICTION_SIMILARITY = 0.75;
+const SUGGEST_AGREEMENT_SIMILARITY = 0.85;
+
+// Similarity at which a statement in another branch is taken as a possible answer to an open question
+const SYNTHESIS_ANSWER_SIMILARITY = 0.7;
+// Source recorded on the connection insights synthesize maintains
+const SYNTHESIS_SOURCE = 'synthesis';
+
+export const INSIGHT_TYPES: InsightType[] = ['behavioral_pattern', 'feature_integration', 'observation', 'connection'];
+
+// Neutral feedback every insight source starts with: with no feedback its insights score 1,
+// and each rejection pulls its unreviewed insights, current and future, further down
+const INSIGHT_FEEDBACK_PRIOR = 2;
+// Unpinned insights listed by insights and history (the latest ones); pinned ones come on top
+const INSIGHT_LIST_LIMIT = 10;
+
+// Thought content quoted in synthesis insights, shortened
+function quote(thought: ThoughtData): string {
+  const text = thought.content.trim();
+  return `"${text.length > 60 ? `${text.slice(0, 57)}...` : text}" (${thought.id})`;
+}
+
+// Thoughts averaged into each point of a sentiment timeline
+export const DEFAULT_SENTIMENT_WINDOW = 3;
+
+// Relative change in the number of thoughts after which every thought's key points are rescored
+// with the current IDF, not just the thoughts that changed
+const KEYPHRASE_RESCORE_DRIFT = 0.25;
+
+// Number of topics joined into a visualize cluster label
+const CLUSTER_LABEL_TOPICS = 2;
+
+// Insights and cross-references that earlier versions generated on every add-thought
+const LEGACY_INSIGHT = /^(Auto-generated insight from thought: |Identified key points: |Frequent key points detected: |Branch sentiment trend: )/;
+const LEGACY_BUILDS_UPON = /^Insight \S+ builds on \S+$/;
+
+export const DEFAULT_SCORING_WEIGHTS: ScoringWeights = {
+  directSimilarity: 0.5,
+  multiHopSimilarity: 0.25,
+  degree: 0.2,
+  recency: 0.1,
+  diversity: 0.1,
+  confidence: 0.2,
+  keyPoints: 0.1
+};
+
+/**
+ * Check profile settings and return them in canonical form; unknown keys and values of the
+ * wrong type are rejected rather than silently ignored.
+ */
+export function validateProfileSettings(settings: object): ProfileSettings {
+  const result: ProfileSettings = {};
+  const unit = (key: string, value: unknown): number => {
+    if (typeof value !== 'number' || value < 0 || value > 1) throw new Error(`Profile setting ${key} must be a number between 0 and 1`);
+    return value;
+  };
+  for (const [key, value] of Object.entries(settings)) {
+    switch (key) {
+      case 'defaultThoughtType':
+        if (typeof value !== 'string' || !value.trim()) throw new Error('Profile setting defaultThoughtType must be a non-empty string');
+        result.defaultThoughtType = value.trim();
+        break;
+      case 'defaultConfidence':
+        result.defaultConfidence = unit(key, value);
+        break;
+      case 'crossRefThreshold':
+        result.crossRefThreshold = unit(key, value);
+        break;
+      case 'allowedThoughtTypes':
+        if (!Array.isArray(value) || !value.length || value.some(v => typeof v !== 'string')) {
+          throw new Error('Profile setting allowedThoughtTypes must be a non-empty array of strings');
+        }
+        result.allowedThoughtTypes = value as string[];
+        break;
+      case 'scoringWeights': {
+        if (!value || typeof value !== 'object' || Array.isArray(value)) throw new Error('Profile setting scoringWeights must be an object');
+        const weights: Partial<ScoringWeights> = {};
+        for (const [name, weight] of Object.entries(value)) {
+          if (!(name in DEFAULT_SCORING_WEIGHTS)) {
+            throw new Error(`Unknown scoring weight: ${name} (expected ${Object.keys(DEFAULT_SCORING_WEIGHTS).join(', ')})`);
+          }
+          if (typeof weight !== 'number' || !Number.isFinite(weight)) throw new Error(`Scoring weight ${name} must be a number`);
+          weights[name as keyof ScoringWeights] = weight;
+        }
+        result.scoringWeights = weights;
+        break;
+      }
+      case 'analyzers':
+        if (!value || typeof value !== 'object' || Array.isArray(value) || Object.values(value).some(v => typeof v !== 'boolean')) {
+          throw new Error('Profile setting analyzers must map analyzer IDs to true or false');
+        }
+        result.analyzers = value as Record<string, boolean>;
+        break;
+      default:
+        throw new Error(`Unknown profile setting: ${key}`);
+    }
+  }
+  if (result.defaultThoughtType && result.allowedThoughtTypes && !result.allowedThoughtTypes.includes(result.defaultThoughtType)) {
+    throw new Error(`defaultThoughtType ${result.defaultThoughtType} is not in allowedThoughtTypes`);
+  }
+  return result;
+}
+
+// Belief propagation: how strongly a fully believed supporter or contradictor moves the target,
+// how far each iteration moves toward the new estimate, and when to stop
+const BELIEF_EVIDENCE_WEIGHT = 0.5;
+const BELIEF_DAMPING = 0.5;
+const BELIEF_TOLERANCE = 1e-4;
+const BELIEF_MAX_ITERATIONS = 100;
+
+import _ from 'lodash';
 import graphlibPkg from '@dagrejs/graphlib';
 import type { Graph as GraphType } from '@dagrejs/graphlib';
 const { Graph, alg } = graphlibPkg as typeof import('@dagrejs/graphlib');
@@ -34,7 +192,352 @@ function cosineSimilarity(a: number[], b: number[]): number {
   return dot / (Math.sqrt(normA) * Math.sqrt(normB));
 }
 
+export interface BranchManagerOptions {
+  /**
+   * Where the workspace, tasks and embedding cache are persisted. Omit to keep everything
+   * in memory only; the server passes the active workspace's adapter (see WorkspaceManager).
+   */
+  storage?: StorageAdapter | null;
+}
+
 export class BranchManager {
+  constructor(options: BranchManagerOptions = {}) {
+    this.storage = options.storage ?? null;
+  }
+
+  // Clock used for timestamps; overridden during journal replay so events keep their original times
+  private clock: () => Date = () => new Date();
+
+  private now(): Date {
+    return this.clock();
+  }
+
+  /**
+   * Override the clock used for new timestamps. Pass null to restore the system clock.
+   */
+  public setClock(clock: (() => Date) | null): void {
+    this.clock = clock ?? (() => new Date());
+  }
+
+  // --- Workspace persistence ---
+  private storage: StorageAdapter | null;
+  private saveChain: Promise<void> = Promise.resolve();
+  private saveQueued = false;
+
+  /**
+   * Serialize the full workspace state.
+   */
+  public toSnapshot(): WorkspaceSnapshot {
+    return {
+      version: WORKSPACE_SNAPSHOT_VERSION,
+      savedAt: new Date().toISOString(),
+      activeBranchId: this.activeBranchId,
+      counters: {
+        thought: this.thoughtCounter,
+        insight: this.insightCounter,
+        crossRef: this.crossRefCounter,
+        snippet: this.snippetCounter
+      },
+      branches: Array.from(this.branches.values()),
+      archivedBranches: Array.from(this.archivedBranches.values()),
+      rejectedLinks: this.rejectedLinks,
+      thoughtTypes: this.thoughtTypes.toConfig(),
+      snippets: this.snippets,
+      profiles: Array.from(this.profiles.values())
+    };
+  }
+
+  /**
+   * Replace the in-memory workspace with a snapshot. Counters are restored so new IDs never collide.
+   */
+  public restoreSnapshot(snapshot: WorkspaceSnapshot): void {
+    this.branches = new Map(snapshot.branches.map(b => [b.id, b]));
+    this.archivedBranches = new Map((snapshot.archivedBranches || []).map(b => [b.id, b]));
+    this.rejectedLinks = snapshot.rejectedLinks || [];
+    this.insightEngine.forget();
+    this.thoughtTypes = new ThoughtTypeRegistry(snapshot.thoughtTypes);
+    this.snippets = snapshot.snippets;
+    this.profiles = new Map(snapshot.profiles.map(p => [p.id, p]));
+    this.activeBranchId = snapshot.activeBranchId && this.branches.has(snapshot.activeBranchId)
+      ? snapshot.activeBranchId
+      : null;
+    this.thoughtCounter = snapshot.counters.thought;
+    this.insightCounter = snapshot.counters.insight;
+    this.crossRefCounter = snapshot.counters.crossRef;
+    this.snippetCounter = snapshot.counters.snippet;
+    this.historyCache.clear();
+    this.statusCache.clear();
+    this.insightsCache.clear();
+    this.summaryCache.clear();
+    this.analyticsCache.clear();
+    this.embeddings.clear();
+    this.markStale('all');
+  }
+
+  // --- Derived state ---
+  // Beliefs, suggested key points, sentiment and analyzer insights are derived from thoughts.
+  // Mutations mark the thoughts and branches they touched; refreshDerived recomputes only those.
+  private staleThoughts = new Map<string, ThoughtData>(); // by ID, including thoughts since removed
+  private staleBranches = new Set<string>();
+  private allStale = true;
+  private documentFrequencies = new DocumentFrequencies();
+  private keyphraseCorpusSize = 0; // texts in the IDF when every thought's key points were last scored
+
+  /**
+   * Mark thoughts (and their branches) whose derived state needs recomputing, or everything.
+   */
+  private markStale(thoughts: ThoughtData[] | 'all', branchIds: string[] = []): void {
+    if (thoughts === 'all') {
+      this.allStale = true;
+      return;
+    }
+    for (const thought of thoughts) {
+      this.staleThoughts.set(thought.id, thought);
+      this.staleBranches.add(thought.branchId);
+    }
+    for (const id of branchIds) this.staleBranches.add(id);
+  }
+
+  /**
+   * Bring derived state up to date for what changed since the last refresh, and queue a save
+   * when anything did. Cheap when nothing is stale, so run it before reading derived state.
+   */
+  public refreshDerived(): void {
+    if (!this.allStale && !this.staleThoughts.size && !this.staleBranches.size) return;
+    const thoughts = Array.from(this.branches.values()).flatMap(b => b.thoughts);
+    let changed = thoughts;
+    if (this.allStale) {
+      this.documentFrequencies.clear();
+      for (const thought of thoughts) this.documentFrequencies.set(thought.id, thought.content);
+    } else {
+      const live = new Set(thoughts);
+      changed = Array.from(this.staleThoughts.values()).filter(t => live.has(t));
+      for (const [id, thought] of this.staleThoughts) {
+        if (live.has(thought)) this.documentFrequencies.set(id, thought.content);
+        else this.documentFrequencies.delete(id);
+      }
+    }
+    // Key points of unchanged thoughts keep the IDF they were scored with until the corpus
+    // has grown or shrunk enough for it to matter
+    const drift = Math.abs(this.documentFrequencies.size - this.keyphraseCorpusSize);
+    if (this.allStale || drift > this.keyphraseCorpusSize * KEYPHRASE_RESCORE_DRIFT) {
+      this.refreshKeyphrases(thoughts);
+      this.keyphraseCorpusSize = this.documentFrequencies.size;
+    } else {
+      this.refreshKeyphrases(changed);
+    }
+    this.refreshSentiment(changed);
+    // A thought's belief also moves its supports/contradicts targets, which matters for removed thoughts
+    const seeds = new Set<string>();
+    for (const [id, thought] of this.staleThoughts) {
+      seeds.add(id);
+      thought.linkedThoughts?.forEach(l => seeds.add(l.toThoughtId));
+    }
+    this.propagateBeliefs(this.allStale ? undefined : seeds);
+    this.refreshInsights(this.allStale ? this.branches.keys() : this.staleBranches);
+    this.staleThoughts.clear();
+    this.staleBranches.clear();
+    this.allStale = false;
+    this.persist();
+  }
+
+  /**
+   * Load the persisted workspace, if any. Call once at startup.
+   * @returns true when a saved workspace was found and restored
+   */
+  public async loadWorkspace(): Promise<boolean> {
+    if (!this.storage) return false;
+    const snapshot = await this.storage.loadWorkspace();
+    if (!snapshot) return false;
+    this.restoreSnapshot(snapshot);
+    return true;
+  }
+
+  /**
+   * Queue an atomic save of the workspace. Saves are serialized, and a save that is
+   * already queued (not yet started) picks up every mutation made before it runs.
+   */
+  private persist(): Promise<void> {
+    this.undoBaselineStale = true;
+    if (!this.storage || this.saveQueued) return this.saveChain;
+    this.saveQueued = true;
+    const storage = this.storage;
+    this.saveChain = this.saveChain.then(async () => {
+      this.saveQueued = false;
+      try {
+        await storage.saveWorkspace(this.toSnapshot());
+      } catch (err) {
+        console.error(`[STORE] Failed to save workspace to ${storage.describe()}:`, err);
+      }
+    });
+    return this.saveChain;
+  }
+
+  /**
+   * Replace the workspace with a snapshot and persist it.
+   */
+  public async replaceWorkspace(snapshot: WorkspaceSnapshot): Promise<void> {
+    this.restoreSnapshot(snapshot);
+    await this.persist();
+  }
+
+  // --- Undo ---
+  // The workspace and task store serialized part by part as of the end of the last recorded
+  // change. Stale when something was saved outside a recorded change (e.g. a search that
+  // refreshed cross-refs), so the next change re-reads it instead of reusing it.
+  private undoBaseline = new Map<string, string>();
+  private undoBaselineStale = true;
+
+  // Each branch and task is its own part, so an undo entry holds only what its command touched
+  private async undoParts(): Promise<Map<string, string>> {
+    await this.loadTasks();
+    const { version, savedAt, branches, archivedBranches = [], ...rest } = this.toSnapshot();
+    const parts = new Map<string, string>();
+    for (const [key, value] of Object.entries(rest)) if (value !== undefined) parts.set(key, JSON.stringify(value));
+    // Keyed parts lose the order of branches and tasks, so it is a part of its own
+    parts.set('order', JSON.stringify({
+      branches: branches.map(b => b.id),
+      archivedBranches: archivedBranches.map(b => b.id),
+      tasks: this.tasks.map(t => t.id)
+    }));
+    for (const b of branches) parts.set(`branch:${b.id}`, JSON.stringify(b));
+    for (const b of archivedBranches) parts.set(`archived:${b.id}`, JSON.stringify(b));
+    for (const t of this.tasks) parts.set(`task:${t.id}`, JSON.stringify(t));
+    return parts;
+  }
+
+  /**
+   * Call before a command that undo should be able to revert.
+   */
+  public async beginChange(): Promise<void> {
+    if (!this.undoBaselineStale) return;
+    this.undoBaseline = await this.undoParts();
+    this.undoBaselineStale = false;
+  }
+
+  /**
+   * Call after the command: the parts it changed, as they were before it.
+   */
+  public async endChange(): Promise<UndoState> {
+    const parts = await this.undoParts();
+    const before: Record<string, string | null> = {};
+    for (const [key, value] of parts) {
+      if (this.undoBaseline.get(key) !== value) before[key] = this.undoBaseline.get(key) ?? null;
+    }
+    for (const [key, value] of this.undoBaseline) if (!parts.has(key)) before[key] = value;
+    this.undoBaseline = parts;
+    this.undoBaselineStale = false;
+    return { parts: before };
+  }
+
+  /**
+   * Call instead of endChange when the command failed: puts back whatever it changed before failing.
+   */
+  public async abortChange(): Promise<void> {
+    const changed = await this.endChange();
+    if (Object.keys(changed.parts).length) await this.restoreState(changed);
+  }
+
+  /**
+   * The current value of every part `state` sets, i.e. what restoring it replaces. Call after beginChange.
+   */
+  public undoCounterpart(state: UndoState): UndoState {
+    return { parts: Object.fromEntries(Object.keys(state.parts).map(key => [key, this.undoBaseline.get(key) ?? null])) };
+  }
+
+  /**
+   * Set the parts of an undo state back and persist the result. Call after beginChange.
+   * Only the branches the state holds are replaced; the others keep their caches and embeddings.
+   */
+  public async restoreState(state: UndoState): Promise<void> {
+    const parts = new Map(this.undoBaseline);
+    for (const [key, value] of Object.entries(state.parts)) {
+      if (value === null) parts.delete(key);
+      else parts.set(key, value);
+    }
+    const data: Record<string, unknown> = {};
+    for (const [key, value] of parts) if (!key.includes(':') && key !== 'order') data[key] = JSON.parse(value);
+    const restored = reviveSnapshot(data);
+    const order: { branches: string[]; archivedBranches: string[]; tasks: string[] } = JSON.parse(parts.get('order')!);
+    const part = (key: string) => JSON.parse(parts.get(key)!);
+    // Thoughts of replaced working branches, as they were and as they are restored; archived
+    // thoughts are neither in the keyphrase corpus nor embedded
+    const before: ThoughtData[] = [];
+    const after: ThoughtData[] = [];
+    const touched = new Set<string>();
+    const restoreBranches = (current: Map<string, ThoughtBranch>, prefix: string, ids: string[]) => {
+      for (const key of Object.keys(state.parts).filter(k => k.startsWith(`${prefix}:`))) {
+        const id = key.slice(prefix.length + 1);
+        if (prefix === 'branch') before.push(...(current.get(id)?.thoughts || []));
+        touched.add(id);
+      }
+      return new Map(ids.map(id => {
+        if (!(`${prefix}:${id}` in state.parts)) return [id, current.get(id)!];
+        const branch = reviveSnapshot({ branches: [part(`${prefix}:${id}`)] }).branches[0];
+        if (prefix === 'branch') after.push(...branch.thoughts);
+        return [id, branch];
+      }));
+    };
+    this.branches = restoreBranches(this.branches, 'branch', order.branches);
+    this.archivedBranches = restoreBranches(this.archivedBranches, 'archived', order.archivedBranches);
+    for (const id of touched) this.invalidateCachesFor(undefined, id);
+    for (const thought of before) this.embeddings.delete(thought.id);
+    if ('rejectedLinks' in state.parts) this.rejectedLinks = restored.rejectedLinks || [];
+    if ('thoughtTypes' in state.parts) this.thoughtTypes = new ThoughtTypeRegistry(restored.thoughtTypes);
+    if ('snippets' in state.parts) this.snippets = restored.snippets;
+    if ('profiles' in state.parts) {
+      // Analyzers can be switched per profile, so branches with thoughts of a changed profile are recomputed
+      const previous = this.profiles;
+      this.profiles = new Map(restored.profiles.map(p => [p.id, p]));
+      for (const id of new Set([...previous.keys(), ...this.profiles.keys()])) {
+        if (JSON.stringify(previous.get(id)) !== JSON.stringify(this.profiles.get(id))) {
+          this.profileBranchIds(id).forEach(branchId => touched.add(branchId));
+        }
+      }
+    }
+    this.activeBranchId = restored.activeBranchId && this.branches.has(restored.activeBranchId)
+      ? restored.activeBranchId
+      : null;
+    this.thoughtCounter = restored.counters.thought;
+    this.insightCounter = restored.counters.insight;
+    this.crossRefCounter = restored.counters.crossRef;
+    this.snippetCounter = restored.counters.snippet;
+    // The state holds every part its command changed, derived values included, so restored thoughts keep
+    // their beliefs and key points; the keyphrase corpus follows them and the branches' analyzers rerun
+    for (const thought of before) this.documentFrequencies.delete(thought.id);
+    for (const thought of after) {
+      this.documentFrequencies.set(thought.id, thought.content);
+      // Marks left by a command that failed part way would otherwise point at the replaced objects
+      if (this.staleThoughts.has(thought.id)) this.staleThoughts.set(thought.id, thought);
+    }
+    this.markStale([], Array.from(touched).filter(id => this.branches.has(id)));
+    this.tasks = order.tasks.map(id => part(`task:${id}`));
+    await this.saveTasks();
+    await this.persist();
+    this.undoBaseline = parts;
+    this.undoBaselineStale = false;
+  }
+
+  /**
+   * Wait until all queued workspace saves have completed.
+   */
+  public flush(): Promise<void> {
+    return this.saveChain;
+  }
+
+  public getStorage(): StorageAdapter | null {
+    return this.storage;
+  }
+
+  /**
+   * Flush pending saves and release the storage backend.
+   */
+  public async close(): Promise<void> {
+    this.refreshDerived();
+    await this.flush();
+    await this.storage?.close();
+  }
+
   /**
    * Embedding cache with LRU and TTL.
    */
@@ -62,12 +565,16 @@ export class BranchManager {
    */
   private invalidateCachesFor(thoughtId?: string, branchId?: string) {
     if (thoughtId) this.embeddingCache.delete(thoughtId);
-    if (branchId) this.summaryCache.delete(branchId);
-    // Add more cache invalidations as needed
+    if (branchId) {
+      this.summaryCache.delete(branchId);
+      this.historyCache.delete(branchId);
+      this.statusCache.delete(branchId);
+      this.insightsCache.delete(branchId);
+      this.analyticsCache.delete(branchId);
+      this.insightEngine.forget(branchId);
+    }
   }
 
-  // Example: Call this.invalidateCachesFor when a thought/branch/task is updated.
-
 
   /**
    * Load the summarization pipeline if not already loaded.
@@ -139,28 +646,29 @@ export class BranchManager {
     return hash.toString();
   }
 
-  // Load persistent embedding cache from disk (JSON)
-  private persistentEmbeddingPath = './embeddings-cache.json';
-  private persistentEmbeddingCache: Record<string, { embedding: number[]; hash: string }> = {};
+  // Persistent embedding cache, loaded from and saved to the storage backend
+  private persistentEmbeddingCache: EmbeddingCacheEntries = {};
   private persistentCacheLoaded = false;
 
   private async loadPersistentEmbeddingCache() {
     if (this.persistentCacheLoaded) return;
+    this.persistentCacheLoaded = true;
+    if (!this.storage) return;
     try {
-      const fs = await import('fs/promises');
-      const data = await fs.readFile(this.persistentEmbeddingPath, 'utf8');
-      this.persistentEmbeddingCache = JSON.parse(data);
+      this.persistentEmbeddingCache = await this.storage.loadEmbeddings();
     } catch (e) {
+      console.error(`[CACHE] Failed to load embedding cache from ${this.storage.describe()}:`, e);
       this.persistentEmbeddingCache = {};
     }
-    this.persistentCacheLoaded = true;
   }
 
   private async savePersistentEmbeddingCache() {
+    if (!this.storage) return;
     try {
-      const fs = await import('fs/promises');
-      await fs.writeFile(this.persistentEmbeddingPath, JSON.stringify(this.persistentEmbeddingCache), 'utf8');
-    } catch (e) {}
+      await this.storage.saveEmbeddings(this.persistentEmbeddingCache);
+    } catch (e) {
+      console.error(`[CACHE] Failed to save embedding cache to ${this.storage.describe()}:`, e);
+    }
   }
 
   // LRU cache for embeddings (in-memory)
@@ -223,6 +731,7 @@ export class BranchManager {
           if (!this.persistentEmbeddingCache[hash]) {
             const emb = await this.embedText(thought.content);
             this.embeddings.set(thought.id, emb);
+            this.persistentEmbeddingCache[hash] = { embedding: emb, hash };
           } else {
             this.embeddings.set(thought.id, this.persistentEmbeddingCache[hash].embedding);
           }
@@ -278,13 +787,14 @@ export class BranchManager {
         const t = thoughts[i];
         const embA = embeddings[i];
         if (!embA) continue;
+        const threshold = this.profileSettings(t).crossRefThreshold ?? this.crossRefThreshold;
         const sims: { toThoughtId: string; score: number; type: string }[] = [];
         for (let j = 0; j < allThoughts.length; j++) {
           if (thoughts[i].id === allThoughts[j].id) continue;
           const embB = this.embeddings.get(allThoughts[j].id);
           if (!embB) continue;
           const sim = cosineSimilarity(embA, embB);
-          if (sim > this.crossRefThreshold) {
+          if (sim > threshold) {
             let type = sim > 0.85 ? 'very similar' : 'related';
             sims.push({ toThoughtId: allThoughts[j].id, score: sim, type });
           }
@@ -307,7 +817,7 @@ export class BranchManager {
             const embB = this.embeddings.get(other.id);
             if (embA && embB) {
               const sim = cosineSimilarity(embA, embB);
-              if (sim > this.crossRefThreshold) {
+              if (sim > (this.profileSettings(other).crossRefThreshold ?? this.crossRefThreshold)) {
                 other.crossRefs.push({ toThoughtId: t.id, score: sim, type: sim > 0.85 ? 'very similar' : 'related' });
                 // Keep only top 3
                 other.crossRefs.sort((a, b) => b.score - a.score);
@@ -367,16 +877,24 @@ export class BranchManager {
         const diversity = t.crossRefs ? this.diversityBonus(t.crossRefs, allThoughts) : 0;
         const confidence = t.metadata.confidence || 0;
         const keyPoints = t.metadata.keyPoints?.length || 0;
-        t.score = 0.5 * directSum + 0.25 * multiHopSum + 0.2 * degree + 0.1 * recency + 0.1 * diversity + 0.2 * confidence + 0.1 * keyPoints;
+        const w = { ...DEFAULT_SCORING_WEIGHTS, ...this.profileSettings(t).scoringWeights };
+        t.score = w.directSimilarity * directSum + w.multiHopSimilarity * multiHopSum + w.degree * degree + w.recency * recency +
+          w.diversity * diversity + w.confidence * confidence + w.keyPoints * keyPoints;
       }
       branch['score'] = branch.thoughts.length > 0 ? branch.thoughts.reduce((sum, t) => sum + (t.score || 0), 0) / branch.thoughts.length : 0;
     }
+    this.persist();
   }
 
   /**
-   * Semantic search: find top N most similar thoughts to a query.
+   * Semantic search: find top N most similar thoughts to a query, optionally only those of one profile.
    */
-  public async semanticSearch(query: string, topN: number = 5): Promise<{ thought: ThoughtData; score: number }[]> {
+  public async semanticSearch(
+    query: string,
+    topN: number = 5,
+    includeArchived: boolean = false,
+    profileId?: string
+  ): Promise<{ thought: ThoughtData; score: number }[]> {
     await this.embedAllThoughts();
     const queryEmb = await this.embedText(query);
     // Compute cosine similarity
@@ -390,7 +908,126 @@ export class BranchManager {
         }
       }
     }
-    return scores.sort((a, b) => b.score - a.score).slice(0, topN);
+    if (includeArchived) {
+      // Archived thoughts are not kept in `embeddings`; embedText serves repeats from its caches
+      for (const branch of this.archivedBranches.values()) {
+        for (const thought of branch.thoughts) {
+          scores.push({ thought, score: cosineSimilarity(queryEmb, await this.embedText(thought.content)) });
+        }
+      }
+    }
+    return scores
+      .filter(s => !profileId || s.thought.profileId === profileId)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, topN);
+  }
+
+  /**
+   * Run a `query` filter (see parseQuery) over the thoughts of the working set. With a
+   * `similar:` term every thought is scored against it using the semantic search embeddings,
+   * and results are ranked by that similarity unless another sort is given.
+   */
+  public async queryThoughts(text: string): Promise<QueryResult> {
+    const query = parseQuery(text);
+    const now = this.now();
+    const similarity = new Map<string, number>();
+    if (query.similar) {
+      for (const { thought, score } of await this.semanticSearch(query.similar, Number.POSITIVE_INFINITY)) {
+        similarity.set(thought.id, score);
+      }
+    } else if (query.terms.some(t => t.field === 'similarity')) {
+      throw new Error('similarity filters need a similar:"..." term');
+    }
+    const thoughts = Array.from(this.branches.values()).flatMap(b => b.thoughts);
+    const backlinks = new Map<string, Set<string>>();
+    for (const t of thoughts) {
+      for (const link of t.linkedThoughts || []) {
+        if (!backlinks.has(link.toThoughtId)) backlinks.set(link.toThoughtId, new Set());
+        backlinks.get(link.toThoughtId)!.add(link.type);
+      }
+    }
+    // `branch:name/*` matches the branch and everything below it
+    const branchSets = new Map<QueryTerm, Set<string>>();
+    for (const term of query.terms.filter(t => t.field === 'branch')) {
+      const ids = new Set<string>();
+      for (const value of term.value.split(',')) {
+        if (value.endsWith('/*')) {
+          const root = value.slice(0, -2);
+          ids.add(root);
+          for (const { branch } of this.getDescendants(root)) ids.add(branch.id);
+        } else {
+          ids.add(value);
+        }
+      }
+      branchSets.set(term, ids);
+    }
+    const times = new Map(query.terms
+      .filter(t => t.field === 'since' || t.field === 'until')
+      .map(t => [t, parseQueryTime(t.value, now).getTime()]));
+    const numberOf = (t: ThoughtData, field: QuerySortField): number | undefined => {
+      switch (field) {
+        case 'timestamp': return new Date(t.timestamp).getTime();
+        case 'confidence': return t.metadata.confidence;
+        case 'score': return t.score;
+        case 'belief': return t.belief;
+        case 'keypoints': return t.metadata.keyPoints.length;
+        case 'similarity': return similarity.get(t.id);
+        default: return undefined;
+      }
+    };
+    const matchesTerm = (t: ThoughtData, term: QueryTerm): boolean => {
+      const values = term.value.toLowerCase().split(',');
+      switch (term.field) {
+        case 'type': return values.some(v => this.thoughtTypes.canonical(v).toLowerCase() === this.thoughtTypes.canonical(t.metadata.type).toLowerCase());
+        case 'keypoint': return values.some(v => t.metadata.keyPoints.some(k => k.toLowerCase().includes(v)));
+        case 'profile': return values.includes((t.profileId || '').toLowerCase());
+        case 'branch': return branchSets.get(term)!.has(t.branchId);
+        case 'state': return values.includes(this.branches.get(t.branchId)!.state);
+        case 'links': return values.some(v => (t.linkedThoughts || []).some(l => v === 'any' || l.type === v));
+        case 'backlinks': return values.some(v => v === 'any' ? backlinks.has(t.id) : !!backlinks.get(t.id)?.has(v));
+        case 'since': return new Date(t.timestamp).getTime() >= times.get(term)!;
+        case 'until': return new Date(t.timestamp).getTime() <= times.get(term)!;
+        default: {
+          const actual = numberOf(t, term.field);
+          return actual !== undefined && compareNumber(actual, term.op, Number(term.value));
+        }
+      }
+    };
+    const matches = thoughts.filter(t =>
+      query.terms.every(term => matchesTerm(t, term) !== term.negate) &&
+      query.text.every(({ value, negate }) => t.content.toLowerCase().includes(value) !== negate));
+    const sort = query.sort ?? (query.similar ? { field: 'similarity' as const, descending: true } : { field: 'timestamp' as const, descending: false });
+    const sortKey = (t: ThoughtData) => sort.field === 'branch' ? t.branchId : numberOf(t, sort.field);
+    // Thoughts without a value for the sort field go last; ties keep workspace order
+    const sorted = [...matches].sort((a, b) => {
+      const x = sortKey(a);
+      const y = sortKey(b);
+      if (x === undefined || y === undefined) return x === y ? 0 : x === undefined ? 1 : -1;
+      const order = x < y ? -1 : x > y ? 1 : 0;
+      return sort.descending ? -order : order;
+    });
+    const page = sorted.slice(query.offset, query.offset + query.limit);
+    const results: ThoughtQueryHit[] = page.map(t => ({
+      id: t.id,
+      branchId: t.branchId,
+      type: t.metadata.type,
+      content: t.content,
+      confidence: t.metadata.confidence,
+      score: t.score,
+      belief: t.belief,
+      keyPoints: t.metadata.keyPoints,
+      profileId: t.profileId,
+      timestamp: new Date(t.timestamp).toISOString(),
+      similarity: similarity.get(t.id)
+    }));
+    return {
+      query: text,
+      total: sorted.length,
+      offset: query.offset,
+      limit: query.limit,
+      nextOffset: query.offset + query.limit < sorted.length ? query.offset + query.limit : null,
+      results
+    };
   }
 
   /**
@@ -408,11 +1045,115 @@ export class BranchManager {
     // Prevent duplicate links
     if (!from.linkedThoughts.some(l => l.toThoughtId === toThoughtId && l.type === type)) {
       from.linkedThoughts.push({ toThoughtId, type, reason });
+      this.markStale([from, to]);
+      this.persist();
       return true;
     }
     return false;
   }
 
+  /**
+   * Remove links from one thought to another; all link types unless `type` is given.
+   * @returns the removed links
+   */
+  public unlinkThoughts(fromThoughtId: string, toThoughtId: string, type?: ThoughtLink['type']): ThoughtLink[] {
+    const from = this.findAnyThought(fromThoughtId);
+    if (!from) throw new Error(`Thought ${fromThoughtId} not found`);
+    const matches = (l: ThoughtLink) => l.toThoughtId === toThoughtId && (!type || l.type === type);
+    const removed = (from.linkedThoughts || []).filter(matches);
+    if (!removed.length) {
+      throw new Error(`No ${type ? `${type} ` : ''}link from ${fromThoughtId} to ${toThoughtId}`);
+    }
+    from.linkedThoughts = from.linkedThoughts!.filter(l => !matches(l));
+    this.invalidateCachesFor(undefined, from.branchId);
+    const to = this.findAnyThought(toThoughtId);
+    this.markStale(to ? [from, to] : [from]);
+    this.persist();
+    return removed;
+  }
+
+  /**
+   * Outgoing links of a thought, flagging targets that no longer exist, plus every link
+   * pointing at it. Archived branches count, so links into and out of them are shown.
+   */
+  public getThoughtLinks(thoughtId: string): ThoughtLinks {
+    const thought = this.findAnyThought(thoughtId);
+    if (!thought) throw new Error(`Thought ${thoughtId} not found`);
+    const backlinks: ThoughtLinks['backlinks'] = [];
+    for (const b of [...this.branches.values(), ...this.archivedBranches.values()]) {
+      for (const t of b.thoughts) {
+        for (const link of t.linkedThoughts || []) {
+          if (link.toThoughtId !== thoughtId) continue;
+          backlinks.push({ fromThoughtId: t.id, branchId: b.id, type: link.type, ...(link.reason !== undefined ? { reason: link.reason } : {}) });
+        }
+      }
+    }
+    return {
+      thoughtId,
+      outgoing: (thought.linkedThoughts || []).map(link =>
+        this.findAnyThought(link.toThoughtId) ? link : { ...link, dangling: true }),
+      backlinks
+    };
+  }
+
+  /**
+   * Find references to thoughts, branches and task sources that no longer exist. With
+   * `repair`, dangling links and cross-references are removed, and orphaned tasks lose their
+   * `thoughtId` (open ones are closed).
+   */
+  public async checkIntegrity(options: { repair?: boolean; actor?: string } = {}): Promise<IntegrityReport> {
+    await this.loadTasks();
+    const all = [...this.branches.values(), ...this.archivedBranches.values()];
+    const thoughtIds = new Set(all.flatMap(b => b.thoughts.map(t => t.id)));
+    const branchIds = new Set(all.map(b => b.id));
+    const report: IntegrityReport = {
+      repaired: options.repair === true,
+      danglingLinks: [],
+      danglingSimilarityRefs: [],
+      danglingCrossRefs: [],
+      orphanedTasks: []
+    };
+    for (const b of all) {
+      let touched = false;
+      for (const t of b.thoughts) {
+        for (const link of t.linkedThoughts || []) {
+          if (thoughtIds.has(link.toThoughtId)) continue;
+          report.danglingLinks.push({ fromThoughtId: t.id, toThoughtId: link.toThoughtId, type: link.type });
+          touched = true;
+        }
+        for (const ref of t.crossRefs || []) {
+          if (thoughtIds.has(ref.toThoughtId)) continue;
+          report.danglingSimilarityRefs.push({ fromThoughtId: t.id, toThoughtId: ref.toThoughtId });
+          touched = true;
+        }
+        if (options.repair) {
+          if (t.linkedThoughts) t.linkedThoughts = t.linkedThoughts.filter(l => thoughtIds.has(l.toThoughtId));
+          if (t.crossRefs) t.crossRefs = t.crossRefs.filter(r => thoughtIds.has(r.toThoughtId));
+        }
+      }
+      for (const ref of b.crossRefs) {
+        if (branchIds.has(ref.toBranch)) continue;
+        report.danglingCrossRefs.push({ branchId: b.id, crossRefId: ref.id, toBranch: ref.toBranch });
+        touched = true;
+      }
+      if (options.repair && touched) {
+        b.crossRefs = b.crossRefs.filter(r => branchIds.has(r.toBranch));
+        this.invalidateCachesFor(undefined, b.id);
+      }
+    }
+    const orphaned = this.tasks.filter(task => task.thoughtId && !thoughtIds.has(task.thoughtId));
+    report.orphanedTasks = orphaned.map(task => ({ taskId: task.id, thoughtId: task.thoughtId!, status: task.status }));
+    if (options.repair) {
+      const open = orphaned.filter(task => task.status !== 'closed').map(task => task.id);
+      this.settleDeletedTasks({ action: 'close', ids: open }, options.actor ?? '', 'source thought missing');
+      for (const task of orphaned) delete task.thoughtId;
+      if (orphaned.length) await this.saveTasks();
+      this.markStale('all');
+      this.persist();
+    }
+    return report;
+  }
+
   /**
    * Retrieve all linked thoughts for a given thought ID, across all branches.
    */
@@ -428,6 +1169,234 @@ export class BranchManager {
       .filter((x): x is { thought: ThoughtData; link: ThoughtLink } => x !== null);
   }
 
+  /**
+   * Recompute `belief` for every thought in the working set. A thought starts from its own
+   * confidence; incoming `supports` links raise it and incoming `contradicts` links lower it,
+   * each weighted by the source thought's current belief (combined noisy-OR style, so the
+   * result stays within 0-1). Cycles are handled by iterating with damping until no belief
+   * moves by more than the tolerance, rather than by recursing along links. With `seeds`
+   * only the thoughts connected to them through supports/contradicts links are recomputed.
+   */
+  private propagateBeliefs(seeds?: Iterable<string>): {
+    iterations: number;
+    converged: boolean;
+    supporters: Map<string, Set<string>>;
+    contradictors: Map<string, Set<string>>;
+  } {
+    const all = Array.from(this.branches.values()).flatMap(b => b.thoughts);
+    const byId = new Map(all.map(t => [t.id, t]));
+    const supporters = new Map<string, Set<string>>();
+    const contradictors = new Map<string, Set<string>>();
+    for (const t of all) {
+      for (const link of t.linkedThoughts || []) {
+        if (link.toThoughtId === t.id || !byId.has(link.toThoughtId)) continue;
+        const incoming = link.type === 'supports' ? supporters : link.type === 'contradicts' ? contradictors : null;
+        if (!incoming) continue;
+        if (!incoming.has(link.toThoughtId)) incoming.set(link.toThoughtId, new Set());
+        incoming.get(link.toThoughtId)!.add(t.id);
+      }
+    }
+    let thoughts = all;
+    if (seeds) {
+      // Beliefs outside the seeds' connected components cannot have moved
+      const neighbours = new Map<string, string[]>();
+      const connect = (a: string, b: string) => {
+        if (!neighbours.has(a)) neighbours.set(a, []);
+        neighbours.get(a)!.push(b);
+      };
+      for (const incoming of [supporters, contradictors]) {
+        for (const [to, sources] of incoming) {
+          for (const from of sources) {
+            connect(from, to);
+            connect(to, from);
+          }
+        }
+      }
+      const reached = new Set(Array.from(seeds).filter(id => byId.has(id)));
+      const queue = Array.from(reached);
+      while (queue.length) {
+        for (const id of neighbours.get(queue.pop()!) || []) {
+          if (reached.has(id)) continue;
+          reached.add(id);
+          queue.push(id);
+        }
+      }
+      thoughts = Array.from(reached, id => byId.get(id)!);
+    }
+    const prior = new Map(thoughts.map(t => [t.id, Math.min(1, Math.max(0, t.metadata.confidence ?? 1))]));
+    let belief = new Map(prior);
+    // 1 - product of (1 - weight * belief): how much the given sources, taken together, push
+    const evidence = (sources: Set<string> | undefined) => {
+      let miss = 1;
+      for (const id of sources || []) miss *= 1 - BELIEF_EVIDENCE_WEIGHT * belief.get(id)!;
+      return 1 - miss;
+    };
+    let iterations = 0;
+    let converged = false;
+    while (!converged && iterations < BELIEF_MAX_ITERATIONS) {
+      iterations++;
+      const next = new Map<string, number>();
+      let maxDelta = 0;
+      for (const t of thoughts) {
+        const p = prior.get(t.id)!;
+        const target = p + (1 - p) * evidence(supporters.get(t.id)) - p * evidence(contradictors.get(t.id));
+        const current = belief.get(t.id)!;
+        const updated = current + BELIEF_DAMPING * (target - current);
+        maxDelta = Math.max(maxDelta, Math.abs(updated - current));
+        next.set(t.id, updated);
+      }
+      belief = next;
+      converged = maxDelta < BELIEF_TOLERANCE;
+    }
+    for (const t of thoughts) t.belief = Math.round(belief.get(t.id)! * 10000) / 10000;
+    return { iterations, converged, supporters, contradictors };
+  }
+
+  /**
+   * Propagate beliefs and report them, for one branch or the whole working set.
+   */
+  public getBeliefs(branchId?: string): BeliefReport {
+    if (branchId && !this.branches.has(branchId)) throw new Error(`Branch ${branchId} not found`);
+    const { iterations, converged, supporters, contradictors } = this.propagateBeliefs();
+    const beliefs: ThoughtBelief[] = Array.from(this.branches.values())
+      .filter(b => !branchId || b.id === branchId)
+      .flatMap(b => b.thoughts)
+      .map(t => ({
+        thoughtId: t.id,
+        branchId: t.branchId,
+        confidence: t.metadata.confidence,
+        belief: t.belief!,
+        supporters: Array.from(supporters.get(t.id) || []),
+        contradictors: Array.from(contradictors.get(t.id) || [])
+      }));
+    return { iterations, converged, beliefs };
+  }
+
+  // --- Suggested links ---
+  private rejectedLinks: RejectedLink[] = [];
+
+  private findRejected(a: string, b: string): RejectedLink | undefined {
+    return this.rejectedLinks.find(r =>
+      (r.fromThoughtId === a && r.toThoughtId === b) || (r.fromThoughtId === b && r.toThoughtId === a));
+  }
+
+  /**
+   * Run the stance analyzer on two thoughts with the given embedding similarity. The link
+   * points from the later thought to the earlier one; null when the pair is not a candidate.
+   */
+  private evaluatePair(a: ThoughtData, b: ThoughtData, similarity: number): LinkSuggestion | null {
+    if (similarity < SUGGEST_CONTRADICTION_SIMILARITY) return null;
+    const [from, to] = new Date(a.timestamp).getTime() > new Date(b.timestamp).getTime() ? [a, b] : [b, a];
+    const signal = detectStance(from.content, to.content);
+    if (signal.stance === 'supports' && similarity < SUGGEST_AGREEMENT_SIMILARITY) return null;
+    return {
+      fromThoughtId: from.id,
+      toThoughtId: to.id,
+      type: signal.stance,
+      similarity: Math.round(similarity * 1000) / 1000,
+      evidence: signal.evidence
+    };
+  }
+
+  /**
+   * Likely contradictions and agreements among highly similar thoughts that are not linked
+   * yet and were not rejected, contradictions first. With a branch, only pairs touching it.
+   */
+  public async suggestLinks(branchId?: string): Promise<LinkSuggestion[]> {
+    if (branchId && !this.branches.has(branchId)) throw new Error(`Branch ${branchId} not found`);
+    await this.embedAllThoughts();
+    const thoughts = Array.from(this.branches.values()).flatMap(b => b.thoughts);
+    const linked = new Set<string>();
+    for (const t of thoughts) {
+      for (const l of t.linkedThoughts || []) {
+        linked.add(`${t.id}|${l.toThoughtId}`);
+        linked.add(`${l.toThoughtId}|${t.id}`);
+      }
+    }
+    const suggestions: LinkSuggestion[] = [];
+    for (let i = 0; i < thoughts.length; i++) {
+      const a = thoughts[i];
+      const embA = this.embeddings.get(a.id);
+      if (!embA) continue;
+      for (let j = i + 1; j < thoughts.length; j++) {
+        const b = thoughts[j];
+        if (branchId && a.branchId !== branchId && b.branchId !== branchId) continue;
+        if (linked.has(`${a.id}|${b.id}`) || this.findRejected(a.id, b.id)) continue;
+        const embB = this.embeddings.get(b.id);
+        if (!embB) continue;
+        const suggestion = this.evaluatePair(a, b, cosineSimilarity(embA, embB));
+        if (suggestion) suggestions.push(suggestion);
+      }
+    }
+    return suggestions.sort((x, y) =>
+      (x.type === y.type ? 0 : x.type === 'contradicts' ? -1 : 1) || y.similarity - x.similarity);
+  }
+
+  /**
+   * Turn a suggestion into a link. Without `type` the pair must currently qualify as a
+   * suggestion and gets the suggested type; the analyzer's evidence becomes the link reason.
+   * Accepting a rejected pair lifts the rejection.
+   */
+  public async acceptLink(fromThoughtId: string, toThoughtId: string, type?: 'supports' | 'contradicts'): Promise<ThoughtLink> {
+    const from = this.findThoughtById(fromThoughtId);
+    const to = this.findThoughtById(toThoughtId);
+    if (!from) throw new Error(`Thought ${fromThoughtId} not found`);
+    if (!to) throw new Error(`Thought ${toThoughtId} not found`);
+    if (from.id === to.id) throw new Error('A thought cannot be linked to itself');
+    let evidence = detectStance(from.content, to.content).evidence;
+    if (!type) {
+      const similarity = cosineSimilarity(await this.thoughtEmbedding(from), await this.thoughtEmbedding(to));
+      const suggestion = this.evaluatePair(from, to, similarity);
+      if (!suggestion) throw new Error(`${fromThoughtId} and ${toThoughtId} are not a suggested pair; pass linkType to link them anyway`);
+      type = suggestion.type;
+      evidence = suggestion.evidence;
+    }
+    const link: ThoughtLink = { toThoughtId, type, reason: `[Suggested] ${evidence.join('; ') || 'similar content'}` };
+    if (from.linkedThoughts?.some(l => l.toThoughtId === toThoughtId && l.type === type)) {
+      throw new Error(`${fromThoughtId} already ${type} ${toThoughtId}`);
+    }
+    const rejected = this.findRejected(from.id, to.id);
+    if (rejected) this.rejectedLinks = this.rejectedLinks.filter(r => r !== rejected);
+    this.linkThoughts(fromThoughtId, toThoughtId, type, link.reason);
+    return link;
+  }
+
+  /**
+   * Record that a pair is not related the way the analyzer thinks; it is never suggested again.
+   */
+  public rejectLink(fromThoughtId: string, toThoughtId: string, actor: string, reason?: string): RejectedLink {
+    const from = this.findThoughtById(fromThoughtId);
+    const to = this.findThoughtById(toThoughtId);
+    if (!from) throw new Error(`Thought ${fromThoughtId} not found`);
+    if (!to) throw new Error(`Thought ${toThoughtId} not found`);
+    const existing = this.findRejected(from.id, to.id);
+    if (existing) return existing;
+    const rejected: RejectedLink = {
+      fromThoughtId,
+      toThoughtId,
+      type: detectStance(from.content, to.content).stance,
+      actor,
+      timestamp: this.now().toISOString(),
+      reason
+    };
+    this.rejectedLinks.push(rejected);
+    this.persist();
+    return rejected;
+  }
+
+  /**
+   * Like findThoughtById, but also looks in archived branches.
+   */
+  private findAnyThought(thoughtId: string): ThoughtData | undefined {
+    const found = this.findThoughtById(thoughtId);
+    if (found) return found;
+    for (const branch of this.archivedBranches.values()) {
+      const t = branch.thoughts.find(th => th.id === thoughtId);
+      if (t) return t;
+    }
+    return undefined;
+  }
+
   /**
    * Utility: Find a thought by ID across all branches.
    */
@@ -457,6 +1426,15 @@ export class BranchManager {
   }
 
   createBranch(branchId: string, parentBranchId?: string): ThoughtBranch {
+    if (this.archivedBranches.has(branchId)) {
+      throw new Error(`Branch ${branchId} is archived; unarchive it or choose another ID`);
+    }
+    if (parentBranchId && !this.branches.has(parentBranchId)) {
+      throw new Error(`Parent branch ${parentBranchId} not found`);
+    }
+    if (parentBranchId === branchId) {
+      throw new Error(`Branch ${branchId} cannot be its own parent`);
+    }
     const branch: ThoughtBranch = {
       id: branchId,
       parentBranchId,
@@ -472,6 +1450,7 @@ export class BranchManager {
     if (!this.activeBranchId) {
       this.activeBranchId = branchId;
     }
+    this.persist();
     return branch;
   }
 
@@ -515,22 +1494,71 @@ export class BranchManager {
    * Accepts a single BranchingThoughtInput or an array of them.
    * Returns the last ThoughtData added (for compatibility).
    */
-  public addThought(input: BranchingThoughtInput | BranchingThoughtInput[]): ThoughtData {
-    const inputs = Array.isArray(input) ? input : [input];
-    // Set skip flag for next status/history task extraction
-    this.skipNextTaskExtraction = inputs.some(item => item.skipExtractTasks === true);
-    let lastThought: ThoughtData | undefined;
-    for (const item of inputs) {
+  // Validate an addThought batch item by item, as the earlier items would leave the workspace, and
+  // pick each item's branch. Generated branch IDs are chosen here so applying the batch uses the same ones.
+  private checkThoughtBatch(inputs: BranchingThoughtInput[]): Array<{
+    item: BranchingThoughtInput;
+    branchId: string;
+    type: string;
+    definition: ThoughtTypeDefinition | undefined;
+    settings: ProfileSettings;
+  }> {
+    const batchThoughtIds = new Set<string>();
+    const batchBranchIds = new Set<string>();
+    let activeBranchId = this.activeBranchId;
+    return inputs.map((item, index) => {
       // Validate content
       if (!item.content || !item.content.trim()) {
         throw new Error('Thought content cannot be empty');
       }
-      // Validate and assign profile if provided
+      // Validate profile if provided
       if (item.profileId && !this.profiles.has(item.profileId)) {
         throw new Error(`Profile not found: ${item.profileId}`);
       }
+      const settings = item.profileId ? this.profiles.get(item.profileId)!.settings : {};
+      const { type, definition } = this.resolveThoughtType(item.type || settings.defaultThoughtType || 'thought');
+      this.checkAllowedType(type, item.profileId);
+      this.checkRequiredFields(type, definition, item.fields);
+      // Linked thoughts must already exist (earlier items of the same batch count)
+      const missingLink = item.thoughtCrossRefs?.find(ref =>
+        !batchThoughtIds.has(ref.toThoughtId) && !this.findAnyThought(ref.toThoughtId));
+      if (missingLink) {
+        throw new Error(`Linked thought not found: ${missingLink.toThoughtId}`);
+      }
+      batchThoughtIds.add(`thought-${this.thoughtCounter + index + 1}`);
       // Use active branch if no branchId provided
-      const branchId = item.branchId || this.activeBranchId || this.generateId('branch');
+      const branchId = item.branchId || activeBranchId || this.generateId('branch');
+      const branch = this.branches.get(branchId);
+      if (branch) {
+        if ((branch.state === 'completed' || branch.state === 'dead_end') && !item.force) {
+          throw new Error(`Branch ${branch.id} is ${branch.state}; resume it or pass force: true to add thoughts`);
+        }
+      } else if (!batchBranchIds.has(branchId)) {
+        // Same checks as createBranch, with branches created earlier in the batch counting as parents
+        if (this.archivedBranches.has(branchId)) {
+          throw new Error(`Branch ${branchId} is archived; unarchive it or choose another ID`);
+        }
+        if (item.parentBranchId && !this.branches.has(item.parentBranchId) && !batchBranchIds.has(item.parentBranchId)) {
+          throw new Error(`Parent branch ${item.parentBranchId} not found`);
+        }
+        if (item.parentBranchId === branchId) {
+          throw new Error(`Branch ${branchId} cannot be its own parent`);
+        }
+        batchBranchIds.add(branchId);
+        activeBranchId = activeBranchId || branchId;
+      }
+      return { item, branchId, type, definition, settings };
+    });
+  }
+
+  public addThought(input: BranchingThoughtInput | BranchingThoughtInput[]): ThoughtData {
+    const inputs = Array.isArray(input) ? input : [input];
+    // Check the whole batch first so a bad item leaves the workspace untouched
+    const planned = this.checkThoughtBatch(inputs);
+    // Set skip flag for next status/history task extraction
+    this.skipNextTaskExtraction = inputs.some(item => item.skipExtractTasks === true);
+    let lastThought: ThoughtData | undefined;
+    for (const { item, branchId, type, definition, settings } of planned) {
       let branch = this.branches.get(branchId);
       if (!branch) {
         branch = this.createBranch(branchId, item.parentBranchId);
@@ -540,11 +1568,12 @@ export class BranchManager {
         content: item.content,
         branchId: branch.id,
         profileId: item.profileId,
-        timestamp: new Date(),
+        timestamp: this.now(),
         metadata: {
-          type: item.type,
-          confidence: item.confidence || 1.0,
-          keyPoints: item.keyPoints || []
+          type,
+          confidence: item.confidence ?? settings.defaultConfidence ?? definition?.defaultConfidence ?? 1.0,
+          keyPoints: item.keyPoints || [],
+          ...(item.fields && Object.keys(item.fields).length ? { fields: item.fields } : {})
         }
       };
       // Compute thought score
@@ -553,14 +1582,6 @@ export class BranchManager {
       score += (item.crossRefs?.length || 0) * 0.2;
       score += (item.thoughtCrossRefs?.length || 0) * 0.2;
       thought.score = score;
-      // Auto-generate a simple insight per thought
-      const simpleInsight = this.createInsight(
-        'observation',
-        `Auto-generated insight from thought: ${thought.content.slice(0, 50)}`,
-        [thought.id]
-      );
-      branch.insights.push(simpleInsight);
-      this.insightsCache.set(branch.id, branch.insights.slice(-10));
       // Add thought-level cross references if provided
       if (item.thoughtCrossRefs) {
         thought.linkedThoughts = item.thoughtCrossRefs.map(ref => ({
@@ -571,18 +1592,7 @@ export class BranchManager {
       }
       branch.thoughts.push(thought);
       lastThought = thought;
-      // Create insights if key points are provided
-      if (item.keyPoints) {
-        const insight = this.createInsight(
-          'observation',
-          `Identified key points: ${item.keyPoints.join(', ')}`,
-          [item.type],
-          item.relatedInsights
-        );
-        branch.insights.push(insight);
-        // Update insights cache for this branch
-        this.insightsCache.set(branchId, branch.insights.slice(-10));
-      }
+      this.markStale([thought]);
       // Create cross references if specified
       if (item.crossRefs) {
         item.crossRefs.forEach(ref => {
@@ -608,88 +1618,479 @@ export class BranchManager {
           }
         });
       }
-      // Auto-generate advanced insights per thought
-      this.generateAdvancedInsights(branch);
-
       this.updateBranchMetrics(branch);
       // Invalidate caches for this branch
       this.historyCache.delete(branchId);
       this.statusCache.delete(branchId);
     }
+    this.persist();
     return lastThought!;
   }
 
+  // --- Insight engine ---
+  private insightEngine = new InsightEngine();
+
   /**
-   * Analyze thoughts in a branch for advanced insight generation.
-   * Adds new insights for frequent key points and sentiment trends.
+   * Register an additional insight analyzer. It runs on every branch from the next change on,
+   * unless a profile switches it off.
    */
-  public generateAdvancedInsights(branch: ThoughtBranch): void {
-    // Prepare linking: existing insight IDs
-    const parentIds: string[] = branch.insights.map(i => i.id);
-    // Analyze frequent key points
-    const keyPointCounts: Record<string, number> = {};
-    branch.thoughts.forEach(t => {
-      (t.metadata.keyPoints || []).forEach(kp => {
-        keyPointCounts[kp] = (keyPointCounts[kp] || 0) + 1;
-      });
-    });
-    const frequentKeyPoints = Object.entries(keyPointCounts)
-      .filter(([_, count]) => count > 1)
-      .map(([kp]) => kp);
-    if (frequentKeyPoints.length > 0) {
-      const insight = this.createInsight(
-        'behavioral_pattern',
-        `Frequent key points detected: ${frequentKeyPoints.join(', ')}`,
-        frequentKeyPoints,
-        parentIds
-      );
+  public registerAnalyzer(analyzer: InsightAnalyzer): void {
+    this.insightEngine.register(analyzer);
+    this.markStale([], Array.from(this.branches.keys()));
+    this.persist();
+  }
+
+  /**
+   * Registered analyzers with the profiles that override their default.
+   */
+  public getAnalyzers(): Array<Omit<InsightAnalyzer, 'analyze'> & { profiles: Record<string, boolean> }> {
+    return this.insightEngine.list().map(({ analyze, ...analyzer }) => ({
+      ...analyzer,
+      profiles: Object.fromEntries(Array.from(this.profiles.values())
+        .filter(p => p.settings.analyzers?.[analyzer.id] !== undefined)
+        .map(p => [p.id, p.settings.analyzers![analyzer.id]]))
+    }));
+  }
+
+  private analyzerEnabled(analyzer: InsightAnalyzer, thought: ThoughtData): boolean {
+    return this.profileSettings(thought).analyzers?.[analyzer.id] ?? analyzer.enabledByDefault;
+  }
+
+  /**
+   * Bring analyzer insights up to date on the given branches, where analyzer inputs changed. Insights
+   * are updated in place by key, duplicates (after a merge) collapse into one, and insights an
+   * analyzer no longer produces are dropped. Insights and `builds_upon` self cross-references
+   * generated by earlier versions are cleaned up on the way.
+   */
+  private refreshInsights(branchIds: Iterable<string>): void {
+    for (const id of branchIds) {
+      const branch = this.branches.get(id);
+      if (!branch) continue;
+      const runs = this.insightEngine.run(branch, analyzer => branch.thoughts.filter(t => this.analyzerEnabled(analyzer, t)));
+      if (!runs.length) continue;
+      branch.insights = branch.insights.filter(i => i.analyzer || !LEGACY_INSIGHT.test(i.content));
+      branch.crossRefs = branch.crossRefs.filter(c =>
+        !(c.type === 'builds_upon' && c.fromBranch === c.toBranch && LEGACY_BUILDS_UPON.test(c.reason)));
+      runs.forEach(run => this.applyKeyedInsights(branch, run.analyzer.id, run.candidates));
+      this.insightsCache.delete(branch.id);
+      if (branch.thoughts.length) this.updateBranchMetrics(branch);
+    }
+  }
+
+  /**
+   * Reconcile the insights `source` (an analyzer or synthesize) keeps on a branch with its new
+   * candidates: matching keys are updated in place, new keys appended, and the rest removed
+   * unless `retain` keeps them.
+   */
+  private applyKeyedInsights(
+    branch: ThoughtBranch,
+    source: string,
+    candidates: InsightCandidate[],
+    retain: (insight: Insight) => boolean = () => false
+  ): { created: number; updated: number; removed: number; byKey: Map<string, Insight> } {
+    const previous = new Map<string, Insight>();
+    for (const insight of branch.insights) {
+      if (insight.analyzer === source && !previous.has(insight.analyzerKey!)) previous.set(insight.analyzerKey!, insight);
+    }
+    const byKey = new Map<string, Insight>();
+    let created = 0, updated = 0;
+    for (const candidate of candidates) {
+      const fields = {
+        type: candidate.type,
+        content: candidate.content,
+        context: candidate.context,
+        supportingEvidence: candidate.supportingEvidence || {}
+      };
+      const existing = byKey.get(candidate.key) ?? previous.get(candidate.key);
+      if (existing) {
+        if (!byKey.has(candidate.key)) updated++;
+        const { type, content, ...rest } = fields;
+        Object.assign(existing, existing.edited ? rest : fields);
+        byKey.set(candidate.key, existing);
+        continue;
+      }
+      const insight: Insight = {
+        ...this.createInsight(candidate.type, candidate.content, candidate.context),
+        ...fields,
+        applicabilityScore: this.sourceWeight(source),
+        analyzer: source,
+        analyzerKey: candidate.key
+      };
       branch.insights.push(insight);
-      this.insightsCache.set(branch.id, branch.insights.slice(-10));
-      // Auto cross-reference new insight to prior insights
-      parentIds.forEach(pid => {
-        const cr = this.createCrossReference(
-          branch.id,
-          branch.id,
-          'builds_upon',
-          `Insight ${insight.id} builds on ${pid}`,
-          1.0
-        );
-        branch.crossRefs.push(cr);
-      });
-      parentIds.push(insight.id);
-    }
-    // Simple sentiment analysis: count positive/negative/neutral
-    let pos = 0, neg = 0, neu = 0;
-    const positiveWords = ['good', 'great', 'positive', 'success', 'improve', 'yes'];
-    const negativeWords = ['bad', 'fail', 'negative', 'problem', 'issue', 'no'];
-    branch.thoughts.forEach(t => {
-      const lc = t.content.toLowerCase();
-      if (positiveWords.some(w => lc.includes(w))) pos++;
-      else if (negativeWords.some(w => lc.includes(w))) neg++;
-      else neu++;
+      byKey.set(candidate.key, insight);
+      created++;
+    }
+    const before = branch.insights.length;
+    // Curated insights outlive their finding, so a rejection still holds if the finding comes back
+    const curated = (i: Insight) => !byKey.has(i.analyzerKey!) && (i.status !== undefined || i.pinned || i.edited);
+    branch.insights = branch.insights.filter(i =>
+      i.analyzer !== source || byKey.get(i.analyzerKey!) === i || curated(i) || retain(i));
+    return { created, updated, removed: before - branch.insights.length, byKey };
+  }
+
+  // --- Insight curation ---
+  private findInsight(insightId: string): { branch: ThoughtBranch; insight: Insight } {
+    for (const branch of this.branches.values()) {
+      const insight = branch.insights.find(i => i.id === insightId);
+      if (insight) return { branch, insight };
+    }
+    throw new Error(`Insight ${insightId} not found`);
+  }
+
+  // Insights listed for a branch: pinned ones plus the latest others, rejected ones hidden
+  private listedInsights(branch: ThoughtBranch): Insight[] {
+    const visible = branch.insights.filter(i => i.status !== 'rejected');
+    const latest = new Set(visible.filter(i => !i.pinned).slice(-INSIGHT_LIST_LIMIT));
+    return visible.filter(i => i.pinned || latest.has(i));
+  }
+
+  /**
+   * How much an insight source (an analyzer or synthesize) is trusted, from the verdicts on its
+   * insights across branches: (accepted + prior) / (accepted + rejected + prior).
+   */
+  private sourceWeight(source: string): number {
+    let accepted = 0, rejected = 0;
+    for (const branch of this.branches.values()) {
+      for (const insight of branch.insights) {
+        if (insight.analyzer !== source) continue;
+        if (insight.status === 'accepted') accepted++;
+        if (insight.status === 'rejected') rejected++;
+      }
+    }
+    return Math.round(((accepted + INSIGHT_FEEDBACK_PRIOR) / (accepted + rejected + INSIGHT_FEEDBACK_PRIOR)) * 1000) / 1000;
+  }
+
+  /**
+   * Recompute applicability after feedback. Rejected insights score 0, accepted and pinned ones 1,
+   * and the rest their source's weight (1 for insights no analyzer maintains). Branch metrics
+   * are refreshed where a score moved.
+   */
+  private rescoreInsights(): void {
+    const weights = new Map<string, number>();
+    for (const branch of this.branches.values()) {
+      let changed = false;
+      for (const insight of branch.insights) {
+        let score = 1;
+        if (insight.status === 'rejected') score = 0;
+        else if (insight.status !== 'accepted' && !insight.pinned && insight.analyzer) {
+          if (!weights.has(insight.analyzer)) weights.set(insight.analyzer, this.sourceWeight(insight.analyzer));
+          score = weights.get(insight.analyzer)!;
+        }
+        if (insight.applicabilityScore === score) continue;
+        insight.applicabilityScore = score;
+        changed = true;
+      }
+      this.insightsCache.delete(branch.id);
+      this.historyCache.delete(branch.id);
+      this.statusCache.delete(branch.id);
+      if (changed && branch.thoughts.length) this.updateBranchMetrics(branch);
+    }
+  }
+
+  private recordInsightFeedback(insight: Insight, action: InsightFeedbackAction, actor: string, reason?: string): void {
+    insight.feedback = [...(insight.feedback || []), { action, actor, timestamp: this.now().toISOString(), reason }];
+    this.rescoreInsights();
+    this.persist();
+  }
+
+  /**
+   * Mark an insight as applicable. Also brings back one that was rejected.
+   */
+  public acceptInsight(insightId: string, actor: string, reason?: string): Insight {
+    const { insight } = this.findInsight(insightId);
+    insight.status = 'accepted';
+    this.recordInsightFeedback(insight, 'accept', actor, reason);
+    return insight;
+  }
+
+  /**
+   * Hide an insight and unpin it. Its source's other unreviewed insights lose weight.
+   */
+  public rejectInsight(insightId: string, actor: string, reason?: string): Insight {
+    const { insight } = this.findInsight(insightId);
+    insight.status = 'rejected';
+    delete insight.pinned;
+    this.recordInsightFeedback(insight, 'reject', actor, reason);
+    return insight;
+  }
+
+  public pinInsight(insightId: string, pinned: boolean, actor: string, reason?: string): Insight {
+    const { insight } = this.findInsight(insightId);
+    if (pinned && insight.status === 'rejected') {
+      throw new Error(`Insight ${insightId} is rejected; accept it before pinning`);
+    }
+    if (pinned) insight.pinned = true;
+    else delete insight.pinned;
+    this.recordInsightFeedback(insight, pinned ? 'pin' : 'unpin', actor, reason);
+    return insight;
+  }
+
+  /**
+   * Rewrite an insight's content and/or type. Edited insights keep the new wording when their
+   * analyzer reruns.
+   */
+  public editInsight(
+    insightId: string,
+    changes: { content?: string; type?: string },
+    actor: string,
+    reason?: string
+  ): Insight {
+    const { insight } = this.findInsight(insightId);
+    if (changes.type !== undefined && !INSIGHT_TYPES.includes(changes.type as InsightType)) {
+      throw new Error(`Unknown insight type: ${changes.type} (expected ${INSIGHT_TYPES.join(', ')})`);
+    }
+    if (changes.content !== undefined && !changes.content.trim()) throw new Error('Insight content cannot be empty');
+    if (changes.content === undefined && changes.type === undefined) throw new Error('edit-insight needs content or a type');
+    if (changes.content !== undefined) insight.content = changes.content.trim();
+    if (changes.type !== undefined) insight.type = changes.type as InsightType;
+    insight.edited = true;
+    this.recordInsightFeedback(insight, 'edit', actor, reason);
+    return insight;
+  }
+
+  // --- Cross-branch synthesis ---
+  /**
+   * Look across branches for conclusions they converge on, open questions that one branch
+   * answers for another, and contradictions between them. Each finding becomes a `connection`
+   * insight in every branch involved. A rerun updates those insights in place and drops
+   * findings that no longer hold; findings that involve branches outside the chosen set are
+   * kept. Defaults to every branch with thoughts.
+   */
+  public async synthesize(branchIds?: string[]): Promise<SynthesisReport> {
+    for (const id of branchIds || []) {
+      if (!this.branches.has(id)) throw new Error(`Branch ${id} not found`);
+    }
+    const chosen = (branchIds?.length ? Array.from(new Set(branchIds)).map(id => this.branches.get(id)!) : Array.from(this.branches.values()))
+      .filter(b => b.thoughts.length);
+    if (chosen.length < 2) throw new Error('synthesize needs at least two branches with thoughts');
+    await this.embedAllThoughts();
+    const chosenIds = new Set(chosen.map(b => b.id));
+    const thoughts = chosen.flatMap(b => b.thoughts);
+    const byId = new Map(thoughts.map(t => [t.id, t]));
+    const pairKey = (a: string, b: string) => (a < b ? `${a}|${b}` : `${b}|${a}`);
+    const similarity = (a: ThoughtData, b: ThoughtData) => {
+      const ea = this.embeddings.get(a.id);
+      const eb = this.embeddings.get(b.id);
+      return ea && eb ? cosineSimilarity(ea, eb) : 0;
+    };
+    const isQuestion = (t: ThoughtData) => this.thoughtTypes.canonical(t.metadata.type) === 'question' || t.content.trim().endsWith('?');
+    const round = (n: number) => Math.round(n * 1000) / 1000;
+    const findings: Array<Omit<SynthesisFinding, 'insightIds'> & { content: string }> = [];
+
+    // Explicit supports/contradicts links across branches count whatever the similarity
+    const linked = new Map<string, 'supports' | 'contradicts'>();
+    for (const t of thoughts) {
+      for (const link of t.linkedThoughts || []) {
+        const target = byId.get(link.toThoughtId);
+        if (target && target.branchId !== t.branchId && (link.type === 'supports' || link.type === 'contradicts')) {
+          linked.set(pairKey(t.id, target.id), link.type);
+        }
+      }
+    }
+    const agreements: Array<{ a: ThoughtData; b: ThoughtData; similarity?: number; evidence: string[] }> = [];
+    const statements = thoughts.filter(t => !isQuestion(t));
+    statements.forEach((a, i) => {
+      for (const b of statements.slice(i + 1)) {
+        if (a.branchId === b.branchId) continue;
+        const link = linked.get(pairKey(a.id, b.id));
+        const verdict = link ? null : this.evaluatePair(a, b, similarity(a, b));
+        if (link === 'contradicts' || verdict?.type === 'contradicts') {
+          findings.push({
+            kind: 'contradiction',
+            branchIds: [a.branchId, b.branchId],
+            thoughtIds: [a.id, b.id],
+            ...(verdict ? { similarity: verdict.similarity } : {}),
+            evidence: verdict ? verdict.evidence : ['linked as contradicts'],
+            content: `Branches ${a.branchId} and ${b.branchId} contradict each other: ${quote(a)} vs ${quote(b)}`
+          });
+        } else if (link === 'supports' || verdict) {
+          agreements.push({ a, b, similarity: verdict?.similarity, evidence: verdict ? verdict.evidence : ['linked as supports'] });
+        }
+      }
     });
-    if (pos || neg) {
-      const sentiment = pos > neg ? 'positive' : (neg > pos ? 'negative' : 'mixed');
-      const insight = this.createInsight(
-        'observation',
-        `Branch sentiment trend: ${sentiment} (${pos} positive, ${neg} negative, ${neu} neutral)`,
-        [],
-        parentIds
-      );
-      branch.insights.push(insight);
-      this.insightsCache.set(branch.id, branch.insights.slice(-10));
-      // Auto cross-reference new sentiment insight to prior insights
-      parentIds.forEach(pid => {
-        const cr = this.createCrossReference(
-          branch.id,
-          branch.id,
-          'builds_upon',
-          `Insight ${insight.id} builds on ${pid}`,
-          1.0
-        );
-        branch.crossRefs.push(cr);
+
+    // Agreeing pairs chain into groups; a group spanning several branches is a convergence
+    const root = new Map<string, string>();
+    const find = (id: string): string => {
+      const parent = root.get(id) ?? id;
+      if (parent === id) return id;
+      const top = find(parent);
+      root.set(id, top);
+      return top;
+    };
+    for (const { a, b } of agreements) root.set(find(a.id), find(b.id));
+    const groups = new Map<string, typeof agreements>();
+    for (const pair of agreements) groups.set(find(pair.a.id), [...(groups.get(find(pair.a.id)) || []), pair]);
+    for (const pairs of groups.values()) {
+      const members = thoughts.filter(t => pairs.some(p => p.a === t || p.b === t));
+      const branchesOf = Array.from(new Set(members.map(t => t.branchId)));
+      const similarities = pairs.map(p => p.similarity).filter((n): n is number => n !== undefined);
+      findings.push({
+        kind: 'convergence',
+        branchIds: branchesOf,
+        thoughtIds: members.map(t => t.id),
+        ...(similarities.length ? { similarity: Math.min(...similarities) } : {}),
+        evidence: Array.from(new Set(pairs.flatMap(p => p.evidence))).slice(0, 5),
+        content: `Branches ${branchesOf.join(', ')} converge: ${members.map(quote).join('; ')}`
       });
     }
+
+    // An open question is answered by the most similar statement of each other branch, if close enough
+    for (const question of thoughts.filter(isQuestion)) {
+      for (const branch of chosen) {
+        if (branch.id === question.branchId) continue;
+        let best: { thought: ThoughtData; similarity: number } | null = null;
+        for (const t of branch.thoughts) {
+          if (isQuestion(t)) continue;
+          const sim = similarity(question, t);
+          if (sim >= SYNTHESIS_ANSWER_SIMILARITY && (!best || sim > best.similarity)) best = { thought: t, similarity: sim };
+        }
+        if (!best) continue;
+        findings.push({
+          kind: 'answer',
+          branchIds: [question.branchId, branch.id],
+          thoughtIds: [question.id, best.thought.id],
+          similarity: round(best.similarity),
+          evidence: detectStance(question.content, best.thought.content).evidence.filter(e => e.startsWith('shared terms')),
+          content: `Branch ${branch.id} may answer an open question of ${question.branchId}: ${quote(question)} → ${quote(best.thought)}`
+        });
+      }
+    }
+
+    const report: SynthesisReport = { branchIds: chosen.map(b => b.id), findings: [], insights: { created: 0, updated: 0, removed: 0 } };
+    const keyOf = (f: Omit<SynthesisFinding, 'insightIds'>) => `${f.kind}:${[...f.thoughtIds].sort().join('+')}`;
+    const insightIds = new Map<string, string[]>();
+    for (const branch of chosen) {
+      const candidates: InsightCandidate[] = findings
+        .filter(f => f.branchIds.includes(branch.id))
+        .map(f => ({
+          key: keyOf(f),
+          type: 'connection',
+          content: f.content,
+          context: f.thoughtIds,
+          supportingEvidence: { crossRefs: f.thoughtIds, pattern: f.kind, data: f.branchIds }
+        }));
+      // Findings about branches outside this run stay until a run covering them re-checks them
+      const outside = (i: Insight) => (i.supportingEvidence.data || []).some(id => !chosenIds.has(id));
+      const result = this.applyKeyedInsights(branch, SYNTHESIS_SOURCE, candidates, outside);
+      report.insights.created += result.created;
+      report.insights.updated += result.updated;
+      report.insights.removed += result.removed;
+      for (const [key, insight] of result.byKey) insightIds.set(key, [...(insightIds.get(key) || []), insight.id]);
+      this.insightsCache.delete(branch.id);
+      this.updateBranchMetrics(branch);
+    }
+    report.findings = findings.map(({ content, ...f }) => ({ ...f, insightIds: insightIds.get(keyOf(f)) || [] }));
+    this.persist();
+    return report;
+  }
+
+  // --- Keyphrases and topics ---
+  /**
+   * Re-extract the suggested key points of thoughts. IDF is taken over the whole working set,
+   * so a phrase found everywhere ranks below one that sets a thought apart.
+   */
+  private refreshKeyphrases(thoughts: ThoughtData[]): void {
+    for (const thought of thoughts) {
+      const suggested = extractKeyphrases(thought.content, this.documentFrequencies.idf);
+      if (suggested.length) thought.suggestedKeyPoints = suggested;
+      else delete thought.suggestedKeyPoints;
+    }
+  }
+
+  /**
+   * Topic distribution of each branch (from its thoughts' suggested key points) and how
+   * similar the distributions are. With a branchId only that branch is compared to the others.
+   */
+  public getTopics(branchId?: string, limit = DEFAULT_TOPIC_LIMIT): TopicReport {
+    if (branchId && !this.branches.has(branchId)) throw new Error(`Branch ${branchId} not found`);
+    const keyphrasesOf = (b: ThoughtBranch) => b.thoughts.map(t => t.suggestedKeyPoints || []);
+    const branches = Array.from(this.branches.values()).filter(b => b.thoughts.length);
+    const weights = new Map(branches.map(b => [b.id, topicWeights(keyphrasesOf(b))]));
+    const comparisons: TopicComparison[] = [];
+    branches.forEach((left, i) => {
+      for (const right of branches.slice(i + 1)) {
+        if (branchId && left.id !== branchId && right.id !== branchId) continue;
+        const l = weights.get(left.id)!;
+        const r = weights.get(right.id)!;
+        const vocabulary = Array.from(new Set([...l.keys(), ...r.keys()]));
+        const shared = vocabulary.filter(topic => l.has(topic) && r.has(topic));
+        comparisons.push({
+          leftBranchId: left.id,
+          rightBranchId: right.id,
+          similarity: Math.round(cosineSimilarity(vocabulary.map(v => l.get(v) || 0), vocabulary.map(v => r.get(v) || 0)) * 1000) / 1000,
+          sharedTopics: shared.sort((a, b) => (l.get(b)! + r.get(b)!) - (l.get(a)! + r.get(a)!)).slice(0, limit)
+        });
+      }
+    });
+    return {
+      branches: branches
+        .filter(b => !branchId || b.id === branchId || comparisons.some(c => c.leftBranchId === b.id || c.rightBranchId === b.id))
+        .map(b => ({ branchId: b.id, thoughts: b.thoughts.length, topics: rankTopics(keyphrasesOf(b), limit) })),
+      comparisons: comparisons.sort((a, b) => b.similarity - a.similarity)
+    };
+  }
+
+  // --- Sentiment ---
+  private refreshSentiment(thoughts: ThoughtData[]): void {
+    for (const thought of thoughts) thought.metadata.sentiment = scoreSentiment(thought.content);
+  }
+
+  /**
+   * How the tone of a branch evolved: each thought's sentiment in order with a rolling average
+   * over `window` thoughts, the points where the rolling tone changes, the overall trend and
+   * the average per thought type (e.g. how risks compare to decisions).
+   */
+  public getSentimentTimeline(branchId: string, window = DEFAULT_SENTIMENT_WINDOW): SentimentTimeline {
+    const branch = this.branches.get(branchId);
+    if (!branch) throw new Error(`Branch ${branchId} not found`);
+    if (!Number.isInteger(window) || window < 1) throw new Error(`window must be a positive integer, got ${window}`);
+    const round = (n: number) => Math.round(n * 1000) / 1000;
+    const average = (values: number[]) => (values.length ? values.reduce((a, b) => a + b, 0) / values.length : 0);
+    const thoughts = [...branch.thoughts].sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+    const points: SentimentPoint[] = thoughts.map((t, i) => {
+      const sentiment = t.metadata.sentiment ?? scoreSentiment(t.content);
+      const recent = thoughts.slice(Math.max(0, i - window + 1), i + 1).map(r => (r.metadata.sentiment ?? scoreSentiment(r.content)).score);
+      return {
+        thoughtId: t.id,
+        timestamp: new Date(t.timestamp).toISOString(),
+        type: t.metadata.type,
+        score: sentiment.score,
+        label: sentiment.label,
+        rolling: round(average(recent))
+      };
+    });
+    const shifts: SentimentTimeline['shifts'] = [];
+    points.forEach((point, i) => {
+      if (!i) return;
+      const from = sentimentLabel(points[i - 1].rolling);
+      const to = sentimentLabel(point.rolling);
+      if (from !== to) shifts.push({ thoughtId: point.thoughtId, from, to });
+    });
+    const byType: SentimentTimeline['byType'] = {};
+    for (const type of new Set(points.map(p => p.type))) {
+      const scores = points.filter(p => p.type === type).map(p => p.score);
+      byType[type] = { count: scores.length, average: round(average(scores)) };
+    }
+    const scores = points.map(p => p.score);
+    const overall = round(average(scores));
+    return {
+      branchId,
+      window,
+      points,
+      average: overall,
+      label: sentimentLabel(overall),
+      ...sentimentTrend(scores),
+      shifts,
+      byType
+    };
+  }
+
+  private checkAnalyzerSettings(settings: ProfileSettings): void {
+    const unknown = Object.keys(settings.analyzers || {}).find(id => !this.insightEngine.has(id));
+    if (unknown) {
+      throw new Error(`Unknown insight analyzer: ${unknown} (expected ${this.insightEngine.list().map(a => a.id).join(', ')})`);
+    }
   }
 
   /**
@@ -697,7 +2098,7 @@ export class BranchManager {
    */
   private updateBranchMetrics(branch: ThoughtBranch): void {
     const avgConfidence = branch.thoughts.reduce((sum, t) => sum + t.metadata.confidence, 0) / branch.thoughts.length;
-    const insightScore = branch.insights.reduce((sum, i) => sum + (i.applicabilityScore || 1), 0) * 0.1;
+    const insightScore = branch.insights.reduce((sum, i) => sum + (i.applicabilityScore ?? 1), 0) * 0.1;
     const crossRefScore = branch.crossRefs.reduce((sum, ref) => sum + ref.strength, 0) * 0.1;
     // Recency: newer thoughts boost priority
     const now = Date.now();
@@ -709,6 +2110,176 @@ export class BranchManager {
     branch.confidence = avgConfidence;
   }
 
+  /**
+   * Move a branch to a new lifecycle state, recording who changed it, why and when.
+   * Throws on transitions that BRANCH_TRANSITIONS does not allow.
+   */
+  public transitionBranch(branchId: string, to: BranchState, reason: string, actor: string): BranchStateChange {
+    const branch = this.branches.get(branchId);
+    if (!branch) throw new Error(`Branch ${branchId} not found`);
+    if (!reason || !reason.trim()) throw new Error('A reason is required to change branch state');
+    const from = branch.state;
+    if (!BRANCH_TRANSITIONS[from].includes(to)) {
+      const allowed = BRANCH_TRANSITIONS[from];
+      throw new Error(`Cannot move branch ${branchId} from ${from} to ${to} (allowed: ${allowed.join(', ')})`);
+    }
+    const change: BranchStateChange = { from, to, reason: reason.trim(), actor, timestamp: this.now().toISOString() };
+    branch.state = to;
+    branch.stateHistory = [...(branch.stateHistory || []), change];
+    this.statusCache.delete(branchId);
+    this.historyCache.delete(branchId);
+    this.analyticsCache.delete(branchId);
+    this.persist();
+    return change;
+  }
+
+  // --- Branch hierarchy ---
+  public getChildBranches(branchId: string): ThoughtBranch[] {
+    return Array.from(this.branches.values()).filter(b => b.parentBranchId === branchId && b.id !== branchId);
+  }
+
+  /**
+   * Ancestors of a branch, nearest first. Stops at a missing parent or a cycle in legacy data.
+   */
+  public getAncestors(branchId: string): ThoughtBranch[] {
+    const branch = this.branches.get(branchId);
+    if (!branch) throw new Error(`Branch ${branchId} not found`);
+    const ancestors: ThoughtBranch[] = [];
+    const seen = new Set([branchId]);
+    let parent = branch.parentBranchId ? this.branches.get(branch.parentBranchId) : undefined;
+    while (parent && !seen.has(parent.id)) {
+      seen.add(parent.id);
+      ancestors.push(parent);
+      parent = parent.parentBranchId ? this.branches.get(parent.parentBranchId) : undefined;
+    }
+    return ancestors;
+  }
+
+  /**
+   * Descendants of a branch in depth-first order, with depth 1 for direct children.
+   */
+  public getDescendants(branchId: string): Array<{ branch: ThoughtBranch; depth: number }> {
+    if (!this.branches.has(branchId)) throw new Error(`Branch ${branchId} not found`);
+    const result: Array<{ branch: ThoughtBranch; depth: number }> = [];
+    const seen = new Set([branchId]);
+    const walk = (id: string, depth: number) => {
+      for (const child of this.getChildBranches(id)) {
+        if (seen.has(child.id)) continue;
+        seen.add(child.id);
+        result.push({ branch: child, depth });
+        walk(child.id, depth + 1);
+      }
+    };
+    walk(branchId, 1);
+    return result;
+  }
+
+  /**
+   * Re-parent a branch; pass undefined to make it a root. Rejects missing parents and cycles.
+   */
+  public setParentBranch(branchId: string, parentBranchId?: string): ThoughtBranch {
+    const branch = this.branches.get(branchId);
+    if (!branch) throw new Error(`Branch ${branchId} not found`);
+    if (parentBranchId) {
+      if (!this.branches.has(parentBranchId)) throw new Error(`Parent branch ${parentBranchId} not found`);
+      if (parentBranchId === branchId || this.getDescendants(branchId).some(d => d.branch.id === parentBranchId)) {
+        throw new Error(`Cannot move ${branchId} under ${parentBranchId}: it would create a cycle`);
+      }
+    }
+    branch.parentBranchId = parentBranchId;
+    this.persist();
+    return branch;
+  }
+
+  /**
+   * Branch hierarchy with per-subtree rollups. Without a root, every branch whose parent is
+   * unset or missing starts a tree. `include` limits the tree to matching branches and the
+   * ancestors needed to reach them.
+   */
+  public async getBranchTree(rootBranchId?: string, include?: (branch: ThoughtBranch) => boolean): Promise<BranchTreeNode[]> {
+    await this.loadTasks();
+    const openTasks = new Map<string, number>();
+    for (const task of this.tasks) {
+      if (task.status !== 'closed') openTasks.set(task.branchId, (openTasks.get(task.branchId) || 0) + 1);
+    }
+    const seen = new Set<string>();
+    const build = (branch: ThoughtBranch): BranchTreeNode | null => {
+      seen.add(branch.id);
+      const children = this.getChildBranches(branch.id)
+        .filter(c => !seen.has(c.id))
+        .map(build)
+        .filter((n): n is BranchTreeNode => n !== null);
+      if (include && !include(branch) && children.length === 0) return null;
+      const scores = branch.thoughts.map(t => t.score).filter((x): x is number => typeof x === 'number');
+      let scoreSum = scores.reduce((a, b) => a + b, 0);
+      let scoreCount = scores.length;
+      const rollup: BranchRollup = {
+        branches: 1,
+        thoughts: branch.thoughts.length,
+        openTasks: openTasks.get(branch.id) || 0,
+        averageScore: null,
+        states: { [branch.state]: 1 }
+      };
+      for (const child of children) {
+        rollup.branches += child.rollup.branches;
+        rollup.thoughts += child.rollup.thoughts;
+        rollup.openTasks += child.rollup.openTasks;
+        if (child.rollup.averageScore !== null) {
+          // Weight each child subtree by its thought count
+          scoreSum += child.rollup.averageScore * child.rollup.thoughts;
+          scoreCount += child.rollup.thoughts;
+        }
+        for (const [state, n] of Object.entries(child.rollup.states) as Array<[BranchState, number]>) {
+          rollup.states[state] = (rollup.states[state] || 0) + n;
+        }
+      }
+      rollup.averageScore = scoreCount ? Math.round((scoreSum / scoreCount) * 1000) / 1000 : null;
+      return { branchId: branch.id, state: branch.state, thoughts: branch.thoughts.length, rollup, children };
+    };
+    let roots: ThoughtBranch[];
+    if (rootBranchId) {
+      const root = this.branches.get(rootBranchId);
+      if (!root) throw new Error(`Branch ${rootBranchId} not found`);
+      roots = [root];
+    } else {
+      roots = Array.from(this.branches.values()).filter(b => !b.parentBranchId || !this.branches.has(b.parentBranchId));
+    }
+    const nodes = roots.map(build).filter((n): n is BranchTreeNode => n !== null);
+    // Branches caught in a parent cycle (legacy data) have no root; list them at the top level
+    if (!rootBranchId) {
+      for (const branch of this.branches.values()) {
+        if (seen.has(branch.id)) continue;
+        const node = build(branch);
+        if (node) nodes.push(node);
+      }
+    }
+    return nodes;
+  }
+
+  /**
+   * Render a branch tree with box-drawing connectors and subtree rollups.
+   */
+  public formatBranchTree(nodes: BranchTreeNode[], activeBranchId?: string): string {
+    const lines: string[] = [];
+    const describe = (node: BranchTreeNode) => {
+      const r = node.rollup;
+      const own = `[${node.state}] ${node.thoughts} thought${node.thoughts === 1 ? '' : 's'}`;
+      if (!node.children.length) {
+        return `${own}, ${r.openTasks} open task${r.openTasks === 1 ? '' : 's'}, avg score ${r.averageScore?.toFixed(2) ?? '-'}`;
+      }
+      const states = Object.entries(r.states).map(([state, n]) => `${state} ${n}`).join(', ');
+      return `${own} | subtree: ${r.branches} branches, ${r.thoughts} thoughts, ${r.openTasks} open tasks, avg score ${r.averageScore?.toFixed(2) ?? '-'} (${states})`;
+    };
+    const walk = (node: BranchTreeNode, prefix: string, connector: string) => {
+      const marker = node.branchId === activeBranchId ? chalk.green('→ ') : '';
+      lines.push(`${prefix}${connector}${marker}${node.branchId} ${describe(node)}`);
+      const childPrefix = prefix + (connector === '├── ' ? '│   ' : connector === '└── ' ? '    ' : '');
+      node.children.forEach((child, i) => walk(child, childPrefix, i === node.children.length - 1 ? '└── ' : '├── '));
+    };
+    nodes.forEach(node => walk(node, '', ''));
+    return lines.join('\n');
+  }
+
   getBranch(branchId: string): ThoughtBranch | undefined {
     return this.branches.get(branchId);
   }
@@ -726,6 +2297,7 @@ export class BranchManager {
       throw new Error(`Branch ${branchId} not found`);
     }
     this.activeBranchId = branchId;
+    this.persist();
   }
 
   /**
@@ -736,7 +2308,7 @@ export class BranchManager {
     if (cached) return cached;
     const branch = this.branches.get(branchId);
     if (!branch) return [];
-    const insights = branch.insights.slice(-10);
+    const insights = this.listedInsights(branch);
     this.insightsCache.set(branchId, insights);
     return insights;
   }
@@ -757,7 +2329,7 @@ export class BranchManager {
     // Optionally skip task extraction
     const tasks = this.skipNextTaskExtraction ? [] : await this.extractTasks(branchId);
     const taskLines = tasks.map(t => `│ [Task] ${t.content}`).join('\n');
-    const insights = branch.insights.slice(-10).map(i => `│ [Insight] ${i.content}`).join('\n');
+    const insights = this.listedInsights(branch).map(i => `│ [${i.pinned ? 'Pinned insight' : 'Insight'}] ${i.content}`).join('\n');
     const result = `
 ┌─────────────────────────────────────────────
 │ ${header}
@@ -783,8 +2355,8 @@ ${taskLines ? `\n├────────────────────
     const thoughts = branch.thoughts.map(t => 
       `  ${chalk.green('•')} ${t.content} (${t.metadata.type})`
     ).join('\n');
-    const insights = branch.insights.map(i =>
-      `  ${chalk.yellow('→')} ${i.content}`
+    const insights = branch.insights.filter(i => i.status !== 'rejected').map(i =>
+      `  ${chalk.yellow(i.pinned ? '★' : '→')} ${i.content}`
     ).join('\n');
     const crossRefs = branch.crossRefs.map(r =>
       `  ${chalk.magenta('↔')} ${r.toBranch}: ${r.reason} (${r.strength.toFixed(2)})`
@@ -825,29 +2397,787 @@ ${crossRefs}
   }
 
   /**
-   * Merge one branch into another, transferring thoughts, insights, and cross-references.
+   * Merge one branch into another. Source thoughts move to the target (their `branchId` follows),
+   * along with insights, cross-references, child branches, snippet tags and tasks; every reference
+   * to the source branch elsewhere in the workspace is rewritten and the source branch is removed.
+   * Source thoughts whose embedding is at least `threshold` similar to a target thought are
+   * near-duplicates, handled by `strategy`:
+   * - keep: move them like any other thought (default)
+   * - merge: fold them into the matching target thought (key points, links, confidence)
+   * - drop: discard them
+   * Merged and dropped thoughts have every reference redirected to their target match.
+   * With `dryRun`, nothing changes and the report describes what would happen.
    */
-  public mergeBranches(sourceBranchId: string, targetBranchId: string): ThoughtBranch {
+  public async mergeBranches(
+    sourceBranchId: string,
+    targetBranchId: string,
+    options: { strategy?: MergeStrategy; threshold?: number; dryRun?: boolean } = {}
+  ): Promise<MergeReport> {
     const source = this.branches.get(sourceBranchId);
     const target = this.branches.get(targetBranchId);
-    if (!source || !target) {
-      throw new Error(`Cannot merge: branch not found`);
+    if (!source) throw new Error(`Cannot merge: branch ${sourceBranchId} not found`);
+    if (!target) throw new Error(`Cannot merge: branch ${targetBranchId} not found`);
+    if (source === target) throw new Error('Cannot merge a branch into itself');
+    const strategy = options.strategy ?? 'keep';
+    if (!MERGE_STRATEGIES.includes(strategy)) {
+      throw new Error(`Unknown merge strategy: ${strategy} (expected ${MERGE_STRATEGIES.join(', ')})`);
+    }
+    const threshold = options.threshold ?? MERGE_DUPLICATE_THRESHOLD;
+    const dryRun = options.dryRun === true;
+    await this.loadTasks();
+
+    // Near-duplicate detection: best target match for each source thought
+    const duplicates: MergeReport['duplicates'] = [];
+    const redirect = new Map<string, string>();
+    if (source.thoughts.length && target.thoughts.length) {
+      const targetEmbeddings = await Promise.all(target.thoughts.map(t => this.thoughtEmbedding(t)));
+      for (const thought of source.thoughts) {
+        const emb = await this.thoughtEmbedding(thought);
+        let best = -1;
+        let bestIndex = -1;
+        targetEmbeddings.forEach((other, i) => {
+          const similarity = cosineSimilarity(emb, other);
+          if (similarity > best) {
+            best = similarity;
+            bestIndex = i;
+          }
+        });
+        if (bestIndex < 0 || best < threshold) continue;
+        const match = target.thoughts[bestIndex];
+        const action = strategy === 'merge' ? 'merged' : strategy === 'drop' ? 'dropped' : 'kept';
+        duplicates.push({ sourceThoughtId: thought.id, targetThoughtId: match.id, similarity: Math.round(best * 1000) / 1000, action });
+        if (strategy !== 'keep') redirect.set(thought.id, match.id);
+      }
+    }
+
+    const report: MergeReport = {
+      sourceBranchId,
+      targetBranchId,
+      strategy,
+      dryRun,
+      threshold,
+      thoughtsMoved: source.thoughts.filter(t => !redirect.has(t.id)).map(t => t.id),
+      duplicates,
+      rewritten: this.rewriteMergeReferences(sourceBranchId, targetBranchId, redirect, false),
+      tasksDropped: []
+    };
+    // Tasks whose rewritten ID already exists in the target would be duplicates
+    const taskIds = new Set(this.tasks.map(t => t.id));
+    for (const task of this.tasks) {
+      if (task.branchId !== sourceBranchId) continue;
+      const id = this.mergedTaskId(task, sourceBranchId, targetBranchId, redirect);
+      if (id !== task.id && taskIds.has(id)) report.tasksDropped.push(task.id);
+    }
+    if (dryRun) return report;
+
+    if (strategy === 'merge') {
+      for (const { sourceThoughtId, targetThoughtId } of duplicates) {
+        const from = source.thoughts.find(t => t.id === sourceThoughtId)!;
+        const into = target.thoughts.find(t => t.id === targetThoughtId)!;
+        into.metadata.keyPoints = Array.from(new Set([...into.metadata.keyPoints, ...from.metadata.keyPoints]));
+        into.metadata.confidence = Math.max(into.metadata.confidence, from.metadata.confidence);
+        if (from.linkedThoughts?.length) into.linkedThoughts = [...(into.linkedThoughts || []), ...from.linkedThoughts];
+      }
+    }
+    for (const thought of source.thoughts) {
+      if (redirect.has(thought.id)) {
+        this.embeddings.delete(thought.id);
+        continue;
+      }
+      thought.branchId = targetBranchId;
+      target.thoughts.push(thought);
     }
-    // Transfer content
-    target.thoughts.push(...source.thoughts);
     target.insights.push(...source.insights);
     target.crossRefs.push(...source.crossRefs);
-    this.updateBranchMetrics(target);
-    // Remove source branch
+    // Merging into a descendant: the target takes the source's place, so re-parenting can't form a cycle
+    if (this.getAncestors(targetBranchId).some(a => a.id === sourceBranchId)) {
+      target.parentBranchId = source.parentBranchId;
+    }
     this.branches.delete(sourceBranchId);
+    this.rewriteMergeReferences(sourceBranchId, targetBranchId, redirect, true);
+
+    const dropped = new Set(report.tasksDropped);
+    this.tasks = this.tasks.filter(t => !dropped.has(t.id));
+    for (const task of this.tasks) {
+      if (task.branchId === sourceBranchId) {
+        task.id = this.mergedTaskId(task, sourceBranchId, targetBranchId, redirect);
+        task.branchId = targetBranchId;
+      }
+      if (task.thoughtId && redirect.has(task.thoughtId)) task.thoughtId = redirect.get(task.thoughtId);
+    }
+
+    this.updateBranchMetrics(target);
     if (this.activeBranchId === sourceBranchId) {
       this.activeBranchId = targetBranchId;
     }
-    return target;
+    for (const id of [sourceBranchId, targetBranchId]) {
+      this.historyCache.delete(id);
+      this.statusCache.delete(id);
+      this.summaryCache.delete(id);
+      this.analyticsCache.delete(id);
+    }
+    this.insightsCache.delete(sourceBranchId);
+    this.insightsCache.delete(targetBranchId);
+    this.insightEngine.forget(sourceBranchId);
+    this.insightEngine.forget(targetBranchId);
+    await this.saveTasks();
+    // Links anywhere in the workspace may have been redirected to the target's thoughts
+    this.markStale('all');
+    this.persist();
+    return report;
+  }
+
+  /**
+   * Fork a branch at one of its thoughts, like branching from a git commit: the new branch is a
+   * child of the source holding copies of every thought up to and including `atThoughtId`.
+   * Each copy records its origin in `forkedFrom`, links between copied thoughts point at the
+   * copies, and copies reuse the originals' embeddings. Both branches get an `alternative`
+   * cross-reference to each other.
+   */
+  public forkBranch(sourceBranchId: string, atThoughtId: string, newBranchId: string): { branch: ThoughtBranch; copied: Record<string, string> } {
+    const source = this.branches.get(sourceBranchId);
+    if (!source) throw new Error(`Branch ${sourceBranchId} not found`);
+    if (!newBranchId) throw new Error('newBranchId required to fork a branch');
+    if (this.branches.has(newBranchId) || this.archivedBranches.has(newBranchId)) throw new Error(`Branch ${newBranchId} already exists`);
+    const index = source.thoughts.findIndex(t => t.id === atThoughtId);
+    if (index < 0) throw new Error(`Thought ${atThoughtId} is not in branch ${sourceBranchId}`);
+
+    const originals = source.thoughts.slice(0, index + 1);
+    const copied = new Map(originals.map(t => [t.id, `thought-${++this.thoughtCounter}`]));
+    const copyId = (id: string) => copied.get(id) ?? id;
+    const branch = this.createBranch(newBranchId, sourceBranchId);
+    for (const original of originals) {
+      const id = copied.get(original.id)!;
+      branch.thoughts.push({
+        ...original,
+        id,
+        branchId: newBranchId,
+        metadata: { ...original.metadata, keyPoints: [...original.metadata.keyPoints] },
+        linkedThoughts: original.linkedThoughts?.map(l => ({ ...l, toThoughtId: copyId(l.toThoughtId) })),
+        crossRefs: original.crossRefs?.map(r => ({ ...r, toThoughtId: copyId(r.toThoughtId) })),
+        forkedFrom: { branchId: sourceBranchId, thoughtId: original.id }
+      });
+      const embedding = this.embeddings.get(original.id);
+      if (embedding) {
+        this.embeddings.set(id, embedding);
+        this.embeddingCache.set(id, embedding);
+      }
+    }
+    const touchpoints = [{ fromThought: copied.get(atThoughtId)!, toThought: atThoughtId, connection: 'fork point' }];
+    const reason = `Forked from ${sourceBranchId} at ${atThoughtId}`;
+    const forward = this.createCrossReference(newBranchId, sourceBranchId, 'alternative', reason, 1.0);
+    forward.touchpoints = touchpoints;
+    branch.crossRefs.push(forward);
+    const reverse = this.createCrossReference(sourceBranchId, newBranchId, 'alternative', `[Auto] ${reason}`, 1.0);
+    reverse.touchpoints = touchpoints.map(tp => ({ ...tp, fromThought: tp.toThought, toThought: tp.fromThought }));
+    source.crossRefs.push(reverse);
+
+    this.updateBranchMetrics(branch);
+    this.statusCache.delete(sourceBranchId);
+    this.analyticsCache.delete(sourceBranchId);
+    this.markStale(branch.thoughts);
+    this.persist();
+    return { branch, copied: Object.fromEntries(copied) };
+  }
+
+  /**
+   * Compare two branches semantically. Thoughts are paired one-to-one by embedding similarity
+   * (most similar pairs first, at least `threshold`); unpaired thoughts are unique to their side.
+   * Thoughts joined by a `contradicts` link are reported as contradictions and never paired.
+   * Key points and insights are compared as case-insensitive text.
+   */
+  public async diffBranches(leftBranchId: string, rightBranchId: string, threshold: number = DIFF_PAIR_THRESHOLD): Promise<BranchDiff> {
+    const left = this.branches.get(leftBranchId);
+    const right = this.branches.get(rightBranchId);
+    if (!left) throw new Error(`Branch ${leftBranchId} not found`);
+    if (!right) throw new Error(`Branch ${rightBranchId} not found`);
+
+    const contradictions: BranchDiff['contradictions'] = [];
+    const contradicting = new Set<string>();
+    for (const [from, other] of [[left, right], [right, left]] as const) {
+      const otherIds = new Set(other.thoughts.map(t => t.id));
+      for (const t of from.thoughts) {
+        for (const link of t.linkedThoughts || []) {
+          if (link.type !== 'contradicts' || !otherIds.has(link.toThoughtId)) continue;
+          contradictions.push({ from: t.id, to: link.toThoughtId, fromBranch: from.id, reason: link.reason });
+          contradicting.add(`${t.id}|${link.toThoughtId}`);
+          contradicting.add(`${link.toThoughtId}|${t.id}`);
+        }
+      }
+    }
+
+    const leftEmb = await Promise.all(left.thoughts.map(t => this.thoughtEmbedding(t)));
+    const rightEmb = await Promise.all(right.thoughts.map(t => this.thoughtEmbedding(t)));
+    const candidates: Array<{ i: number; j: number; similarity: number }> = [];
+    leftEmb.forEach((a, i) => rightEmb.forEach((b, j) => {
+      const similarity = cosineSimilarity(a, b);
+      if (similarity >= threshold && !contradicting.has(`${left.thoughts[i].id}|${right.thoughts[j].id}`)) {
+        candidates.push({ i, j, similarity });
+      }
+    }));
+    candidates.sort((a, b) => b.similarity - a.similarity);
+    const pairedLeft = new Map<number, { j: number; similarity: number }>();
+    const pairedRight = new Set<number>();
+    for (const c of candidates) {
+      if (pairedLeft.has(c.i) || pairedRight.has(c.j)) continue;
+      pairedLeft.set(c.i, { j: c.j, similarity: c.similarity });
+      pairedRight.add(c.j);
+    }
+
+    const shared: BranchDiff['shared'] = [];
+    const onlyLeft: BranchDiff['onlyLeft'] = [];
+    left.thoughts.forEach((t, i) => {
+      const pair = pairedLeft.get(i);
+      if (!pair) {
+        onlyLeft.push({ id: t.id, content: t.content });
+        return;
+      }
+      const other = right.thoughts[pair.j];
+      shared.push({ left: t.id, right: other.id, similarity: Math.round(pair.similarity * 1000) / 1000, leftContent: t.content, rightContent: other.content });
+    });
+    const onlyRight = right.thoughts.filter((_t, j) => !pairedRight.has(j)).map(t => ({ id: t.id, content: t.content }));
+
+    return {
+      left: left.id,
+      right: right.id,
+      threshold,
+      shared,
+      onlyLeft,
+      onlyRight,
+      contradictions,
+      keyPoints: compareTextSets(left.thoughts.flatMap(t => t.metadata.keyPoints), right.thoughts.flatMap(t => t.metadata.keyPoints)),
+      insights: compareTextSets(left.insights.map(i => i.content), right.insights.map(i => i.content))
+    };
+  }
+
+  /**
+   * Render a branch diff in unified-diff style: ' ' shared, '-' only in the left branch,
+   * '+' only in the right branch, '!' contradictions.
+   */
+  public formatBranchDiff(diff: BranchDiff): string {
+    const line = (text: string) => text.split('\n')[0];
+    const out: string[] = [`--- ${diff.left}`, `+++ ${diff.right}`];
+    out.push(`@@ thoughts: ${diff.shared.length} shared, ${diff.onlyLeft.length} removed, ${diff.onlyRight.length} added @@`);
+    const sharedByLeft = new Map(diff.shared.map(p => [p.left, p]));
+    const onlyLeft = new Set(diff.onlyLeft.map(t => t.id));
+    for (const t of this.branches.get(diff.left)?.thoughts || []) {
+      const pair = sharedByLeft.get(t.id);
+      if (pair) out.push(`  ${line(t.content)}  [${t.id} ≈ ${pair.right}, ${pair.similarity.toFixed(2)}]`);
+      else if (onlyLeft.has(t.id)) out.push(`- ${line(t.content)}  [${t.id}]`);
+    }
+    diff.onlyRight.forEach(t => out.push(`+ ${line(t.content)}  [${t.id}]`));
+    if (diff.contradictions.length) {
+      out.push(`@@ contradictions: ${diff.contradictions.length} @@`);
+      diff.contradictions.forEach(c => out.push(`! ${c.from} contradicts ${c.to}${c.reason ? `: ${c.reason}` : ''}`));
+    }
+    for (const [title, set] of [['key points', diff.keyPoints], ['insights', diff.insights]] as const) {
+      if (!set.shared.length && !set.onlyLeft.length && !set.onlyRight.length) continue;
+      out.push(`@@ ${title} @@`);
+      set.shared.forEach(k => out.push(`  ${line(k)}`));
+      set.onlyLeft.forEach(k => out.push(`- ${line(k)}`));
+      set.onlyRight.forEach(k => out.push(`+ ${line(k)}`));
+    }
+    return out.join('\n');
+  }
+
+  // Stored embedding of a thought, computing it from the content when missing
+  private async thoughtEmbedding(thought: ThoughtData): Promise<number[]> {
+    const existing = this.embeddings.get(thought.id);
+    if (existing) return existing;
+    const emb = await this.embedText(thought.content);
+    this.embeddings.set(thought.id, emb);
+    return emb;
+  }
+
+  /**
+   * Count, and with `apply` rewrite, every reference to the source branch or to redirected thoughts.
+   * Runs after the source thoughts have moved, so links inside the merged branch are covered too.
+   */
+  private rewriteMergeReferences(
+    sourceBranchId: string,
+    targetBranchId: string,
+    redirect: Map<string, string>,
+    apply: boolean
+  ): MergeReport['rewritten'] {
+    const counts = { thoughtLinks: 0, insights: 0, crossRefs: 0, childBranches: 0, snippets: 0, tasks: 0 };
+    const branch = (id: string) => (id === sourceBranchId ? targetBranchId : id);
+    const thought = (id: string) => redirect.get(id) ?? id;
+    for (const b of this.branches.values()) {
+      if (b.parentBranchId === sourceBranchId && b.id !== sourceBranchId) {
+        counts.childBranches++;
+        if (apply) b.parentBranchId = targetBranchId;
+      }
+      for (const t of b.thoughts) {
+        const links = t.linkedThoughts || [];
+        counts.thoughtLinks += links.filter(l => redirect.has(l.toThoughtId)).length;
+        if (apply && links.length) {
+          // Redirected links can collapse into duplicates or point back at the thought itself
+          const rewritten: ThoughtLink[] = [];
+          for (const l of links) {
+            const toThoughtId = thought(l.toThoughtId);
+            if (toThoughtId === t.id || rewritten.some(r => r.toThoughtId === toThoughtId && r.type === l.type)) continue;
+            rewritten.push({ ...l, toThoughtId });
+          }
+          t.linkedThoughts = rewritten;
+        }
+        if (t.crossRefs?.some(r => redirect.has(r.toThoughtId))) {
+          counts.thoughtLinks += t.crossRefs.filter(r => redirect.has(r.toThoughtId)).length;
+          if (apply) t.crossRefs = t.crossRefs.filter(r => !redirect.has(r.toThoughtId));
+        }
+      }
+      for (const insight of b.insights) {
+        if (insight.context.some(c => redirect.has(c))) {
+          counts.insights++;
+          if (apply) insight.context = insight.context.map(thought);
+        }
+      }
+      for (const ref of b.crossRefs) {
+        const touches = ref.fromBranch === sourceBranchId || ref.toBranch === sourceBranchId
+          || ref.touchpoints.some(tp => redirect.has(tp.fromThought) || redirect.has(tp.toThought));
+        if (!touches) continue;
+        counts.crossRefs++;
+        if (apply) {
+          ref.fromBranch = branch(ref.fromBranch);
+          ref.toBranch = branch(ref.toBranch);
+          ref.touchpoints = ref.touchpoints.map(tp => ({ ...tp, fromThought: thought(tp.fromThought), toThought: thought(tp.toThought) }));
+        }
+      }
+      if (apply) {
+        // A reference between the two merged branches now points at the branch itself
+        b.crossRefs = b.crossRefs.filter(r => r.fromBranch !== r.toBranch);
+      }
+    }
+    for (const snippet of this.snippets) {
+      if (!snippet.tags.includes(sourceBranchId)) continue;
+      counts.snippets++;
+      if (apply) snippet.tags = Array.from(new Set(snippet.tags.map(branch)));
+    }
+    counts.tasks = this.tasks.filter(t => t.branchId === sourceBranchId || (t.thoughtId && redirect.has(t.thoughtId))).length;
+    return counts;
+  }
+
+  // Extracted-task IDs embed branch and thought IDs; rebuild them so extract-tasks keeps deduplicating
+  private mergedTaskId(task: TaskItem, sourceBranchId: string, targetBranchId: string, redirect: Map<string, string>): string {
+    const prefix = `task-${sourceBranchId}-${task.thoughtId}-`;
+    if (!task.thoughtId || !task.id.startsWith(prefix)) return task.id;
+    const thoughtId = redirect.get(task.thoughtId) ?? task.thoughtId;
+    return `task-${targetBranchId}-${thoughtId}-${task.id.slice(prefix.length)}`;
+  }
+
+  // --- Archive and delete ---
+  // Archived branches are kept apart from `branches`, so every working-set view and analysis skips them
+  private archivedBranches: Map<string, ThoughtBranch> = new Map();
+
+  public getArchivedBranches(): ThoughtBranch[] {
+    return Array.from(this.archivedBranches.values());
+  }
+
+  /**
+   * Move a branch out of the working set. Its thoughts drop out of cross-referencing, scoring,
+   * views and default search, but stay searchable with semanticSearch's `includeArchived`.
+   * Children keep their parent pointer and show as roots until the branch is unarchived.
+   */
+  public archiveBranch(branchId: string, actor: string, reason?: string): ThoughtBranch {
+    const branch = this.branches.get(branchId);
+    if (!branch) {
+      throw new Error(this.archivedBranches.has(branchId) ? `Branch ${branchId} is already archived` : `Branch ${branchId} not found`);
+    }
+    branch.archived = { at: this.now().toISOString(), actor, ...(reason?.trim() ? { reason: reason.trim() } : {}) };
+    this.branches.delete(branchId);
+    this.archivedBranches.set(branchId, branch);
+    branch.thoughts.forEach(t => this.embeddings.delete(t.id));
+    if (this.activeBranchId === branchId) {
+      this.activeBranchId = this.branches.keys().next().value ?? null;
+    }
+    this.invalidateCachesFor(undefined, branchId);
+    this.markStale(branch.thoughts);
+    this.persist();
+    return branch;
+  }
+
+  /**
+   * Bring an archived branch back into the working set. Embeddings are recomputed on the next search.
+   */
+  public unarchiveBranch(branchId: string): ThoughtBranch {
+    const branch = this.archivedBranches.get(branchId);
+    if (!branch) {
+      throw new Error(this.branches.has(branchId) ? `Branch ${branchId} is not archived` : `Branch ${branchId} not found`);
+    }
+    delete branch.archived;
+    this.archivedBranches.delete(branchId);
+    this.branches.set(branchId, branch);
+    if (!this.activeBranchId) this.activeBranchId = branchId;
+    this.invalidateCachesFor(undefined, branchId);
+    this.markStale(branch.thoughts);
+    this.persist();
+    return branch;
+  }
+
+  /**
+   * Delete a branch (in the working set or archived) and everything that points into it:
+   * its embeddings, thought links and similarity refs, branch cross-references, insight
+   * context entries and snippet tags. Its tasks are closed (default) or deleted, and its
+   * children move up to its parent. With `dryRun` the report is built and nothing changes.
+   */
+  public async deleteBranch(
+    branchId: string,
+    options: { dryRun?: boolean; tasks?: 'close' | 'delete'; actor?: string } = {}
+  ): Promise<DeleteReport> {
+    const archived = !this.branches.has(branchId);
+    const branch = this.branches.get(branchId) ?? this.archivedBranches.get(branchId);
+    if (!branch) throw new Error(`Branch ${branchId} not found`);
+    const taskAction = options.tasks ?? 'close';
+    if (taskAction !== 'close' && taskAction !== 'delete') {
+      throw new Error(`Invalid tasks option: ${taskAction} (expected close or delete)`);
+    }
+    await this.loadTasks();
+    await this.loadPersistentEmbeddingCache();
+    const dryRun = options.dryRun === true;
+    const thoughtIds = new Set(branch.thoughts.map(t => t.id));
+    const newParentBranchId = branch.parentBranchId && branch.parentBranchId !== branchId ? branch.parentBranchId : null;
+
+    const tasks = this.tasks.filter(t => t.branchId === branchId || (t.thoughtId && thoughtIds.has(t.thoughtId)));
+    // Cache entries are shared by identical content, so keep those another thought still uses
+    const embeddingKey = (t: ThoughtData) => this.hashContent(this.truncateText(t.content));
+    const keptKeys = new Set<string>();
+    for (const b of [...this.branches.values(), ...this.archivedBranches.values()]) {
+      if (b.id !== branchId) b.thoughts.forEach(t => keptKeys.add(embeddingKey(t)));
+    }
+    const droppedKeys = new Set(branch.thoughts.map(embeddingKey).filter(k => !keptKeys.has(k) && this.persistentEmbeddingCache[k]));
+
+    const report: DeleteReport = {
+      branchId,
+      dryRun,
+      archived,
+      thoughts: Array.from(thoughtIds),
+      embeddings: branch.thoughts.filter(t => this.embeddings.has(t.id)).length,
+      cachedEmbeddings: droppedKeys.size,
+      ...this.stripDeletedReferences(branchId, thoughtIds, newParentBranchId, false),
+      tasks: {
+        action: taskAction,
+        ids: (taskAction === 'close' ? tasks.filter(t => t.status !== 'closed') : tasks).map(t => t.id)
+      },
+      newParentBranchId
+    };
+    if (dryRun) return report;
+
+    this.stripDeletedReferences(branchId, thoughtIds, newParentBranchId, true);
+    this.branches.delete(branchId);
+    this.archivedBranches.delete(branchId);
+    for (const id of thoughtIds) {
+      this.embeddings.delete(id);
+      this.invalidateCachesFor(id);
+    }
+    droppedKeys.forEach(k => delete this.persistentEmbeddingCache[k]);
+
+    this.settleDeletedTasks(report.tasks, options.actor ?? '', `branch ${branchId} deleted`);
+
+    if (this.activeBranchId === branchId) {
+      this.activeBranchId = this.branches.keys().next().value ?? null;
+    }
+    for (const id of [branchId, ...report.branchesTouched]) this.invalidateCachesFor(undefined, id);
+    if (droppedKeys.size) await this.savePersistentEmbeddingCache();
+    if (tasks.length) await this.saveTasks();
+    this.markStale(branch.thoughts, report.branchesTouched);
+    this.persist();
+    return report;
+  }
+
+  // Close or delete the tasks of deleted thoughts, noting the cause in each closed task's audit trail;
+  // closed tasks drop their thoughtId so they do not show up as orphaned in check-integrity
+  private settleDeletedTasks(tasks: { action: 'close' | 'delete'; ids: string[] }, actor: string, cause: string): void {
+    const affected = new Set(tasks.ids);
+    if (tasks.action === 'delete') {
+      this.tasks = this.tasks.filter(t => !affected.has(t.id));
+      return;
+    }
+    const timestamp = this.now().toISOString();
+    for (const task of this.tasks) {
+      if (!affected.has(task.id)) continue;
+      task.auditTrail = task.auditTrail || [];
+      task.auditTrail.push({ timestamp, action: `Status changed from ${task.status} to closed (${cause})`, user: actor });
+      task.status = 'closed';
+      task.updatedAt = timestamp;
+      task.lastEditor = actor;
+      delete task.thoughtId;
+    }
+  }
+
+  /**
+   * Count, and with `apply` remove, every reference into thoughts (and, when `branchId` is
+   * given, a whole branch) that are being deleted. Covers archived branches too, since they
+   * come back with their references intact.
+   */
+  private stripDeletedReferences(
+    branchId: string | null,
+    thoughtIds: Set<string>,
+    newParentBranchId: string | null,
+    apply: boolean
+  ): Pick<DeleteReport, 'crossRefsRemoved' | 'linksRemoved' | 'insightsUpdated' | 'snippetsUntagged' | 'childBranches' | 'branchesTouched'> {
+    const result = {
+      crossRefsRemoved: 0,
+      linksRemoved: 0,
+      insightsUpdated: 0,
+      snippetsUntagged: [] as string[],
+      childBranches: [] as string[],
+      branchesTouched: [] as string[]
+    };
+    const intoBranch = (ref: CrossReference) => ref.fromBranch === branchId || ref.toBranch === branchId;
+    const intoThoughts = (tp: CrossReference['touchpoints'][number]) => thoughtIds.has(tp.fromThought) || thoughtIds.has(tp.toThought);
+    for (const b of [...this.branches.values(), ...this.archivedBranches.values()]) {
+      if (b.id === branchId) continue;
+      let touched = false;
+      if (branchId && b.parentBranchId === branchId) {
+        result.childBranches.push(b.id);
+        if (apply) b.parentBranchId = newParentBranchId ?? undefined;
+      }
+      for (const t of b.thoughts) {
+        const links = (t.linkedThoughts || []).filter(l => thoughtIds.has(l.toThoughtId)).length;
+        const refs = (t.crossRefs || []).filter(r => thoughtIds.has(r.toThoughtId)).length;
+        if (!links && !refs) continue;
+        touched = true;
+        result.linksRemoved += links;
+        result.crossRefsRemoved += refs;
+        if (apply) {
+          if (links) t.linkedThoughts = t.linkedThoughts!.filter(l => !thoughtIds.has(l.toThoughtId));
+          if (refs) t.crossRefs = t.crossRefs!.filter(r => !thoughtIds.has(r.toThoughtId));
+        }
+      }
+      for (const insight of b.insights) {
+        if (!insight.context.some(c => thoughtIds.has(c))) continue;
+        touched = true;
+        result.insightsUpdated++;
+        if (apply) insight.context = insight.context.filter(c => !thoughtIds.has(c));
+      }
+      const refs = b.crossRefs.filter(intoBranch).length;
+      if (refs) {
+        touched = true;
+        result.crossRefsRemoved += refs;
+        if (apply) b.crossRefs = b.crossRefs.filter(r => !intoBranch(r));
+      }
+      for (const ref of b.crossRefs) {
+        if (!ref.touchpoints.some(intoThoughts)) continue;
+        touched = true;
+        if (apply) ref.touchpoints = ref.touchpoints.filter(tp => !intoThoughts(tp));
+      }
+      if (touched) result.branchesTouched.push(b.id);
+    }
+    for (const snippet of this.snippets) {
+      if (!branchId || !snippet.tags.includes(branchId)) continue;
+      result.snippetsUntagged.push(snippet.id);
+      if (apply) snippet.tags = snippet.tags.filter(tag => tag !== branchId);
+    }
+    return result;
+  }
+
+  // --- Thought editing ---
+  /**
+   * Edit a thought in place, keeping the replaced version in `revisions`. A content change
+   * re-embeds the thought and recomputes cross-refs and scores; task extraction is re-run for
+   * the thought and caches for its branch are invalidated. An edit that changes nothing
+   * records no revision.
+   */
+  public async editThought(
+    thoughtId: string,
+    changes: { content?: string; type?: string; confidence?: number; keyPoints?: string[]; fields?: Record<string, string> },
+    options: { author: string; reason?: string; force?: boolean }
+  ): Promise<{ thought: ThoughtData; revision: ThoughtRevision | null; tasks: TaskItem[] }> {
+    const thought = this.findThoughtById(thoughtId);
+    if (!thought) throw new Error(`Thought ${thoughtId} not found`);
+    const branch = this.branches.get(thought.branchId)!;
+    if ((branch.state === 'completed' || branch.state === 'dead_end') && !options.force) {
+      throw new Error(`Branch ${branch.id} is ${branch.state}; resume it or pass force: true to edit its thoughts`);
+    }
+    if (changes.content !== undefined && !changes.content.trim()) {
+      throw new Error('Thought content cannot be empty');
+    }
+    const { type, definition } = changes.type !== undefined
+      ? this.resolveThoughtType(changes.type)
+      : { type: thought.metadata.type, definition: this.thoughtTypes.resolve(thought.metadata.type) };
+    if (changes.type !== undefined) this.checkAllowedType(type, thought.profileId);
+    // Fields merge into the existing ones; an empty value removes a field
+    const fields = { ...thought.metadata.fields, ...changes.fields };
+    for (const [name, value] of Object.entries(fields)) if (!value) delete fields[name];
+    if (changes.type !== undefined || changes.fields !== undefined) this.checkRequiredFields(type, definition, fields);
+    await this.loadTasks();
+    const content = changes.content ?? thought.content;
+    const metadata: ThoughtData['metadata'] = {
+      type,
+      confidence: changes.confidence ?? thought.metadata.confidence,
+      keyPoints: changes.keyPoints ?? thought.metadata.keyPoints,
+      ...(Object.keys(fields).length ? { fields } : {}),
+      sentiment: scoreSentiment(content)
+    };
+    const contentChanged = content !== thought.content;
+    if (!contentChanged && _.isEqual(metadata, thought.metadata)) {
+      return { thought, revision: null, tasks: this.tasks.filter(t => t.thoughtId === thoughtId) };
+    }
+
+    const revision: ThoughtRevision = {
+      revision: (thought.revisions?.length || 0) + 1,
+      previous: { content: thought.content, metadata: thought.metadata },
+      author: options.author,
+      timestamp: this.now().toISOString(),
+      ...(options.reason?.trim() ? { reason: options.reason.trim() } : {})
+    };
+    thought.revisions = [...(thought.revisions || []), revision];
+    thought.content = content;
+    thought.metadata = metadata;
+    this.invalidateCachesFor(thoughtId, branch.id);
+    if (contentChanged) {
+      // embedAllThoughts embeds the new content and then recomputes every cross-ref and score
+      this.embeddings.delete(thoughtId);
+      await this.embedAllThoughts();
+    } else {
+      await this.updateAllCrossRefsAndScores();
+    }
+    const tasks = this.syncThoughtTasks(branch, thought, options.author);
+    this.updateBranchMetrics(branch);
+    await this.saveTasks();
+    this.markStale([thought]);
+    this.persist();
+    return { thought, revision, tasks };
+  }
+
+  /**
+   * Re-run task extraction for one edited thought. Tasks whose line is unchanged are kept,
+   * a changed line updates a leftover task in place (so status and assignee survive), new
+   * lines add tasks, and tasks whose line was removed are closed.
+   */
+  private syncThoughtTasks(branch: ThoughtBranch, thought: ThoughtData, actor: string): TaskItem[] {
+    const timestamp = this.now().toISOString();
+    const matches = Array.from(thought.content.matchAll(new RegExp(TASK_PATTERN))).map(m => ({
+      index: m.index ?? 0,
+      type: m.groups?.type || 'TASK',
+      content: m.groups?.description?.trim() || '',
+      assignee: m.groups?.assignee || '',
+      due: m.groups?.due || ''
+    }));
+    const existing = this.tasks.filter(t => t.thoughtId === thought.id);
+    // Pair unchanged lines with their tasks first, so reuse only ever takes truly leftover tasks
+    const unchanged = new Map<number, TaskItem>();
+    const used = new Set<TaskItem>();
+    matches.forEach((m, i) => {
+      const same = existing.find(t => !used.has(t) && t.type === m.type && t.content === m.content);
+      if (!same) return;
+      unchanged.set(i, same);
+      used.add(same);
+    });
+    const leftover = existing.filter(t => !used.has(t));
+    const audit = (task: TaskItem, action: string) => {
+      task.auditTrail = [...(task.auditTrail || []), { timestamp, action, user: actor }];
+      task.updatedAt = timestamp;
+      task.lastEditor = actor;
+    };
+
+    const result: TaskItem[] = [];
+    for (const [i, m] of matches.entries()) {
+      const same = unchanged.get(i);
+      if (same) {
+        result.push(same);
+        continue;
+      }
+      const reused = leftover.shift();
+      if (reused) {
+        audit(reused, `Content changed from "${reused.content}" to "${m.content}" by an edit of ${thought.id}`);
+        reused.type = m.type;
+        reused.content = m.content;
+        if (m.assignee) reused.assignee = m.assignee;
+        if (m.due) reused.due = m.due;
+        result.push(reused);
+        continue;
+      }
+      let id = `task-${branch.id}-${thought.id}-${m.index}`;
+      for (let n = 2; this.tasks.some(t => t.id === id); n++) id = `task-${branch.id}-${thought.id}-${m.index}-${n}`;
+      const task: TaskItem = {
+        id,
+        branchId: branch.id,
+        thoughtId: thought.id,
+        type: m.type,
+        content: m.content,
+        status: 'open',
+        assignee: m.assignee,
+        due: m.due,
+        priority: 3,
+        createdAt: timestamp,
+        updatedAt: timestamp,
+        creator: actor,
+        lastEditor: actor,
+        auditTrail: [],
+        stale: false
+      };
+      this.tasks.push(task);
+      result.push(task);
+    }
+    for (const task of leftover) {
+      if (task.status === 'closed') continue;
+      audit(task, `Status changed from ${task.status} to closed (line removed by an edit of ${thought.id})`);
+      task.status = 'closed';
+    }
+    return result;
+  }
+
+  /**
+   * Delete a thought and every reference to it: links, similarity refs, cross-reference
+   * touchpoints and insight context entries. Insights generated from this thought alone are
+   * removed, and its tasks are closed (default) or deleted. With `dryRun` nothing changes.
+   */
+  public async deleteThought(
+    thoughtId: string,
+    options: { dryRun?: boolean; tasks?: 'close' | 'delete'; actor?: string; force?: boolean } = {}
+  ): Promise<DeleteThoughtReport> {
+    const thought = this.findThoughtById(thoughtId);
+    if (!thought) throw new Error(`Thought ${thoughtId} not found`);
+    const branch = this.branches.get(thought.branchId)!;
+    if ((branch.state === 'completed' || branch.state === 'dead_end') && !options.force) {
+      throw new Error(`Branch ${branch.id} is ${branch.state}; resume it or pass force: true to delete its thoughts`);
+    }
+    const taskAction = options.tasks ?? 'close';
+    if (taskAction !== 'close' && taskAction !== 'delete') {
+      throw new Error(`Invalid tasks option: ${taskAction} (expected close or delete)`);
+    }
+    await this.loadTasks();
+    const ids = new Set([thoughtId]);
+    const tasks = this.tasks.filter(t => t.thoughtId === thoughtId);
+    const ownInsights = branch.insights.filter(i => i.context.length === 1 && i.context[0] === thoughtId);
+    const refs = this.stripDeletedReferences(null, ids, null, false);
+    const report: DeleteThoughtReport = {
+      thoughtId,
+      branchId: branch.id,
+      dryRun: options.dryRun === true,
+      crossRefsRemoved: refs.crossRefsRemoved,
+      linksRemoved: refs.linksRemoved,
+      insightsUpdated: refs.insightsUpdated - ownInsights.length,
+      insightsRemoved: ownInsights.map(i => i.id),
+      tasks: {
+        action: taskAction,
+        ids: (taskAction === 'close' ? tasks.filter(t => t.status !== 'closed') : tasks).map(t => t.id)
+      },
+      branchesTouched: refs.branchesTouched.filter(id => id !== branch.id)
+    };
+    if (report.dryRun) return report;
+
+    branch.insights = branch.insights.filter(i => !ownInsights.includes(i));
+    this.stripDeletedReferences(null, ids, null, true);
+    branch.thoughts = branch.thoughts.filter(t => t.id !== thoughtId);
+    this.embeddings.delete(thoughtId);
+    this.settleDeletedTasks(report.tasks, options.actor ?? '', `thought ${thoughtId} deleted`);
+    this.invalidateCachesFor(thoughtId);
+    for (const id of [branch.id, ...report.branchesTouched]) this.invalidateCachesFor(undefined, id);
+    await this.updateAllCrossRefsAndScores();
+    if (branch.thoughts.length) this.updateBranchMetrics(branch);
+    if (tasks.length) await this.saveTasks();
+    this.markStale([thought], report.branchesTouched);
+    this.persist();
+    return report;
   }
 
   // ... (other methods remain unchanged)
 
+  public getSnippets(): CodeSnippet[] {
+    return this.snippets;
+  }
+
   public searchSnippets(query: string, topN: number = 5): CodeSnippet[] {
     // Simple search: match query in content or tags
     const lower = query.toLowerCase();
@@ -861,7 +3191,9 @@ ${crossRefs}
 
   // --- Automated Documentation Generation ---
   public async summarizeBranch(branchId: string): Promise<string> {
-    return this.summarizeBranchThoughts(branchId); // Uses existing summarization pipeline
+    const summary = await this.summarizeBranchThoughts(branchId); // Uses existing summarization pipeline
+    const pinned = this.branches.get(branchId)!.insights.filter(i => i.pinned);
+    return pinned.length ? `${summary}\n\nPinned insights:\n${pinned.map(i => `- ${i.content}`).join('\n')}` : summary;
   }
 
   public async summarizeThought(thoughtId: string): Promise<string> {
@@ -875,24 +3207,27 @@ ${crossRefs}
 
   // --- Automated Task and Issue Extraction ---
   // --- Persistent Task Store ---
-  private taskStorePath = './.tasks.json';
   private tasks: TaskItem[] = [];
 
   private async loadTasks(): Promise<void> {
+    // In-memory mode: tasks live only in this.tasks
+    if (!this.storage) return;
     try {
-      const fs = await import('fs/promises');
-      const raw = await fs.readFile(this.taskStorePath, 'utf8');
-      this.tasks = JSON.parse(raw).tasks || [];
+      this.tasks = await this.storage.loadTasks();
     } catch (e) {
-      this.tasks = [];
+      // Keep the in-memory tasks rather than overwriting the store with an empty list later
+      console.error(`[TASKS] Failed to load tasks from ${this.storage.describe()}:`, e);
     }
   }
 
   private async saveTasks(): Promise<void> {
+    this.undoBaselineStale = true;
+    if (!this.storage) return;
     try {
-      const fs = await import('fs/promises');
-      await fs.writeFile(this.taskStorePath, JSON.stringify({ tasks: this.tasks }, null, 2), 'utf8');
-    } catch (e) {}
+      await this.storage.saveTasks(this.tasks);
+    } catch (e) {
+      console.error(`[TASKS] Failed to save tasks to ${this.storage.describe()}:`, e);
+    }
   }
 
   /**
@@ -940,7 +3275,7 @@ ${crossRefs}
 public async extractTasks(branchId?: string): Promise<TaskItem[]> {
   await this.loadTasks();
   const branches = branchId ? [this.getBranch(branchId)].filter(Boolean) : Array.from(this.branches.values());
-  const taskRegex = /(?<type>TODO|FIXME|ACTION|TASK)(?:\((?<assignee>\w+)\))?:?\s*(?<description>.+?)(?:\s+by\s+(?<due>\d{4}-\d{2}-\d{2}))?(?=\n|$)/gi;
+  const taskRegex = new RegExp(TASK_PATTERN);
   let foundTasks: TaskItem[] = [];
   for (const branch of branches) {
     if (!branch) continue;
@@ -958,8 +3293,8 @@ public async extractTasks(branchId?: string): Promise<TaskItem[]> {
           assignee: assignee || '',
           due: due || '',
           priority: 3,
-          createdAt: new Date().toISOString(),
-          updatedAt: new Date().toISOString(),
+          createdAt: this.now().toISOString(),
+          updatedAt: this.now().toISOString(),
           creator: '',
           lastEditor: '',
           auditTrail: [],
@@ -1020,11 +3355,11 @@ public async updateTaskStatus(taskId: string, status: 'open' | 'in_progress' | '
   const task = this.tasks[idx];
   const oldStatus = task.status;
   task.status = status;
-  task.updatedAt = new Date().toISOString();
+  task.updatedAt = this.now().toISOString();
   task.lastEditor = user;
   if (!task.auditTrail) task.auditTrail = [];
   task.auditTrail.push({
-    timestamp: new Date().toISOString(),
+    timestamp: this.now().toISOString(),
     action: `Status changed from ${oldStatus} to ${status}`,
     user
   });
@@ -1081,12 +3416,18 @@ public async updateTaskStatus(taskId: string, status: 'open' | 'in_progress' | '
       showClusters = true,
       edgeBundling = false,
       focusNode,
-      levelOfDetail: lod = 'auto'
+      levelOfDetail: lod = 'auto',
+      states,
+      profileId,
+      colorBy = 'cluster'
     } = options;
 
     // Determine branches to include
     const branchIds = optBranches ?? (branchId ? [branchId] : Array.from(this.branches.keys()));
-    const branches = branchIds.map(id => this.getBranch(id)).filter(Boolean) as ThoughtBranch[];
+    const inProfile = (t: ThoughtData) => !profileId || t.profileId === profileId;
+    const branches = (branchIds.map(id => this.getBranch(id)).filter(Boolean) as ThoughtBranch[])
+      .filter(b => !states?.length || states.includes(b.state))
+      .filter(b => !profileId || b.thoughts.some(inProfile));
 
     // Initialize graph and containers
     const g = new Graph({ directed: true });
@@ -1097,10 +3438,10 @@ public async updateTaskStatus(taskId: string, status: 'open' | 'in_progress' | '
     for (const branch of branches) {
       g.setNode(branch.id);
       nodes.push({ id: branch.id, label: branch.id, type: 'branch' });
-      for (const thought of branch.thoughts) {
+      for (const thought of branch.thoughts.filter(inProfile)) {
         const label = thought.content.slice(0, 30);
         g.setNode(thought.id);
-        nodes.push({ id: thought.id, label, type: 'thought' });
+        nodes.push({ id: thought.id, label, type: 'thought', belief: thought.belief });
         g.setEdge(branch.id, thought.id);
         edges.push({ from: branch.id, to: thought.id });
         if (thought.linkedThoughts) {
@@ -1140,11 +3481,22 @@ public async updateTaskStatus(taskId: string, status: 'open' | 'in_progress' | '
         const result = kmeans(features, k, { initialization: 'kmeans++', maxIterations: 100 });
         analytics.centroids = result.centroids;
         analytics.clusters = result.clusters;
+        // Label each cluster with the top topics of its thoughts; clusters without any keep a number
+        const thoughtsById = new Map(branches.flatMap(b => b.thoughts).map(t => [t.id, t]));
+        const labels = new Map<number, string>();
+        for (const cluster of new Set(result.clusters)) {
+          const keyphrases: Keyphrase[][] = nodes
+            .filter((n, i) => result.clusters[i] === cluster && thoughtsById.has(n.id))
+            .map(n => thoughtsById.get(n.id)!.suggestedKeyPoints || []);
+          const topics = rankTopics(keyphrases, CLUSTER_LABEL_TOPICS).map(t => t.topic);
+          labels.set(cluster, topics.length ? topics.join(' / ') : `Cluster ${cluster}`);
+        }
+        analytics.clusterLabels = Object.fromEntries(labels);
         // Annotate nodes
         nodes = nodes.map((n, i) => ({
           ...n,
           cluster: result.clusters[i],
-          clusterLabel: `Cluster ${result.clusters[i]}`,
+          clusterLabel: labels.get(result.clusters[i]),
           clusterColor: `hsl(${(result.clusters[i] * 30)}, 70%, 50%)`
         }));
       } catch {}
@@ -1177,6 +3529,13 @@ public async updateTaskStatus(taskId: string, status: 'open' | 'in_progress' | '
       analytics.edgeBundles = _.groupBy(edges, e => `${e.from}->${e.to}`);
     }
 
+    // Belief coloring: hue runs from red (disbelieved) to green (believed)
+    if (colorBy === 'belief') {
+      nodes = nodes.map(n => n.belief === undefined
+        ? n
+        : { ...n, beliefColor: `hsl(${Math.round(n.belief * 120)}, 70%, 50%)` });
+    }
+
     // Task metadata
     nodes = nodes.map(n => {
       const task = this.tasks.find(t => t.id === n.id);
@@ -1207,10 +3566,11 @@ public async updateTaskStatus(taskId: string, status: 'open' | 'in_progress' | '
       id: `snippet-${++this.snippetCounter}`,
       content,
       tags,
-      created: new Date(),
+      created: this.now(),
       author
     };
     this.snippets.push(snippet);
+    this.persist();
     return snippet;
   }
 
@@ -1228,18 +3588,151 @@ public async updateTaskStatus(taskId: string, status: 'open' | 'in_progress' | '
   // --- Profile management ---
   private profiles: Map<string, Profile> = new Map();
 
+  // --- Thought types ---
+  private thoughtTypes = new ThoughtTypeRegistry();
+
+  /**
+   * The thought type registry: canonical names, aliases, required fields and default confidence.
+   */
+  public getThoughtTypes(): { strictness: TypeStrictness; types: ThoughtTypeDefinition[] } {
+    return this.thoughtTypes.toConfig();
+  }
+
+  /**
+   * Add a thought type or replace the one with the same name. Existing thoughts keep their
+   * type; the new required fields apply to thoughts added or re-typed from now on.
+   */
+  public defineThoughtType(input: Partial<ThoughtTypeDefinition>): ThoughtTypeDefinition {
+    const definition = this.thoughtTypes.define(input);
+    this.persist();
+    return definition;
+  }
+
+  /**
+   * Set how unknown thought types are handled: `strict` rejects them, `warn` logs and
+   * accepts them, `off` accepts them silently.
+   */
+  public setThoughtTypeStrictness(strictness: TypeStrictness): void {
+    if (!TYPE_STRICTNESS.includes(strictness)) {
+      throw new Error(`Invalid strictness: ${strictness} (expected ${TYPE_STRICTNESS.join(', ')})`);
+    }
+    this.thoughtTypes.strictness = strictness;
+    this.persist();
+  }
+
   /**
    * Create a new profile for thoughts.
    * @param name The profile name
+   * @param settings Optional behavior settings, validated
+   * @param id Optional readable ID; derived from the name when omitted, so journal replay recreates the same ID
    * @returns The created Profile
    */
-  public createProfile(name: string): Profile {
-    const id = this.generateId('profile');
-    const profile: Profile = { id, name, settings: {} };
-    this.profiles.set(id, profile);
+  public createProfile(name: string, settings: ProfileSettings = {}, id?: string): Profile {
+    if (!name?.trim()) throw new Error('Profile name cannot be empty');
+    if (id !== undefined && this.profiles.has(id)) throw new Error(`Profile ${id} already exists`);
+    if (!id) {
+      const base = `profile-${slugify(name)}`;
+      id = base;
+      for (let n = 2; this.profiles.has(id); n++) id = `${base}-${n}`;
+    }
+    const profile: Profile = { id, name: name.trim(), settings: validateProfileSettings(settings) };
+    this.checkAnalyzerSettings(profile.settings);
+    this.profiles.set(profile.id, profile);
+    this.persist();
+    return profile;
+  }
+
+  /**
+   * Rename a profile and/or change its settings. Settings are merged; a setting passed as
+   * null is removed. Thought scores are recomputed so new weights and thresholds apply.
+   */
+  public async updateProfile(id: string, changes: { name?: string; settings?: Record<string, unknown> }): Promise<Profile> {
+    const profile = this.profiles.get(id);
+    if (!profile) throw new Error(`Profile not found: ${id}`);
+    if (changes.name !== undefined && !changes.name.trim()) throw new Error('Profile name cannot be empty');
+    const merged: Record<string, unknown> = { ...profile.settings };
+    for (const [key, value] of Object.entries(changes.settings || {})) {
+      if (value === null) delete merged[key];
+      else merged[key] = value;
+    }
+    const validated = validateProfileSettings(merged);
+    this.checkAnalyzerSettings(validated);
+    profile.settings = validated;
+    if (changes.name !== undefined) profile.name = changes.name.trim();
+    if (changes.settings) {
+      await this.updateAllCrossRefsAndScores();
+      // Analyzers may have been switched on or off for the profile's thoughts
+      this.markStale([], this.profileBranchIds(id));
+    }
+    this.persist();
     return profile;
   }
 
+  /**
+   * Delete a profile. Its thoughts, archived ones included, are detached from it.
+   * @returns IDs of the detached thoughts
+   */
+  public deleteProfile(id: string): string[] {
+    if (!this.profiles.has(id)) throw new Error(`Profile not found: ${id}`);
+    this.markStale([], this.profileBranchIds(id));
+    const detached: string[] = [];
+    for (const b of [...this.branches.values(), ...this.archivedBranches.values()]) {
+      for (const t of b.thoughts) {
+        if (t.profileId !== id) continue;
+        delete t.profileId;
+        detached.push(t.id);
+      }
+    }
+    this.profiles.delete(id);
+    this.persist();
+    return detached;
+  }
+
+  // Working-set branches holding thoughts of a profile
+  private profileBranchIds(id: string): string[] {
+    return Array.from(this.branches.values()).filter(b => b.thoughts.some(t => t.profileId === id)).map(b => b.id);
+  }
+
+  // Settings of the thought's profile; empty when it has none
+  private profileSettings(thought: ThoughtData): ProfileSettings {
+    return (thought.profileId && this.profiles.get(thought.profileId)?.settings) || {};
+  }
+
+  /**
+   * Normalize a thought type through the registry. A type the registry doesn't know is rejected,
+   * logged or passed through unchanged, depending on the registry's strictness.
+   */
+  private resolveThoughtType(requested: string): { type: string; definition?: ThoughtTypeDefinition } {
+    const definition = this.thoughtTypes.resolve(requested);
+    if (definition) return { type: definition.name, definition };
+    if (this.thoughtTypes.strictness === 'strict') {
+      throw new Error(`Unknown thought type: ${requested} (known: ${this.thoughtTypes.list().map(t => t.name).join(', ')})`);
+    }
+    if (this.thoughtTypes.strictness === 'warn') {
+      console.error(`[TYPES] Unknown thought type: ${requested}; it will not match registry types in filters or scoring`);
+    }
+    return { type: requested };
+  }
+
+  // Missing required fields follow the registry's strictness like unknown types do: rejected, warned about or accepted
+  private checkRequiredFields(type: string, definition: ThoughtTypeDefinition | undefined, fields?: Record<string, string>): void {
+    const missing = definition ? this.thoughtTypes.missingFields(definition, fields) : [];
+    if (!missing.length) return;
+    if (this.thoughtTypes.strictness === 'strict') {
+      throw new Error(`Thought type ${type} requires fields: ${missing.join(', ')}`);
+    }
+    if (this.thoughtTypes.strictness === 'warn') {
+      console.error(`[TYPES] Thought type ${type} is missing required fields: ${missing.join(', ')}`);
+    }
+  }
+
+  private checkAllowedType(type: string, profileId?: string): void {
+    const allowed = profileId ? this.profiles.get(profileId)?.settings.allowedThoughtTypes : undefined;
+    if (allowed && !allowed.some(a => this.thoughtTypes.canonical(a) === type)) {
+      throw new Error(`Profile ${profileId} does not allow thought type ${type} (allowed: ${allowed.join(', ')})`);
+    }
+  }
+
   /**
    * Get a profile by ID.
    * @param id Profile ID
@@ -1249,6 +3742,325 @@ public async updateTaskStatus(taskId: string, status: 'open' | 'in_progress' | '
     return this.profiles.get(id);
   }
 
+  public getProfiles(): Profile[] {
+    return Array.from(this.profiles.values());
+  }
+
+  // --- Import ---
+  /**
+   * Build branches and thoughts from a parsed Markdown outline. Headings become branches (child
+   * headings get the enclosing heading's branch as parent), list items become thoughts, nested
+   * items `expands` their parent item, and `[[links]]` become linked thoughts once every item exists.
+   * Links that match no anchor, item text or existing thought ID are reported, not fatal.
+   * @param options.branchId Branch for items that come before the first heading (default: active branch)
+   * @param options.parentBranchId Parent for top-level headings
+   * @param options.thoughtType Thought type for imported items (default 'note')
+   */
+  public importOutline(
+    outline: OutlineSection,
+    options: { branchId?: string; parentBranchId?: string; thoughtType?: string } = {}
+  ): ImportReport {
+    if (options.parentBranchId && !this.branches.has(options.parentBranchId)) {
+      throw new Error(`Parent branch ${options.parentBranchId} not found`);
+    }
+    const report = this.emptyImportReport('markdown');
+    const type = options.thoughtType || 'note';
+    // Plan branch IDs up front so heading collisions are resolved before anything is created
+    const reserved = new Set<string>();
+    const sectionIds = new Map<OutlineSection, string>();
+    const planSections = (section: OutlineSection, trail: string[]) => {
+      for (const child of section.children) {
+        const id = this.uniqueBranchId(slugify(child.title), reserved);
+        reserved.add(id);
+        sectionIds.set(child, id);
+        const path = [...trail, child.title];
+        // Repeated headings get a numbered key so each one's branch is still reported
+        let key = path.join(' / ');
+        for (let n = 2; key in report.idMap.branches; n++) key = `${path.join(' / ')} (${n})`;
+        report.idMap.branches[key] = id;
+        planSections(child, path);
+      }
+    };
+    planSections(outline, []);
+    let rootBranchId = options.branchId || this.activeBranchId || undefined;
+    if (!rootBranchId && outline.items.length) {
+      rootBranchId = this.uniqueBranchId('imported', reserved);
+    }
+    // Everything that could make an item fail is checked before anything is created,
+    // so a rejected import leaves no branches or thoughts behind
+    const hasItems = (section: OutlineSection): boolean => section.items.length > 0 || section.children.some(hasItems);
+    if (hasItems(outline) && this.thoughtTypes.strictness === 'strict') {
+      const resolved = this.resolveThoughtType(type);
+      this.checkRequiredFields(resolved.type, resolved.definition);
+    }
+    const rootBranch = outline.items.length ? this.branches.get(rootBranchId!) : undefined;
+    if (rootBranch && (rootBranch.state === 'completed' || rootBranch.state === 'dead_end')) {
+      throw new Error(`Branch ${rootBranch.id} is ${rootBranch.state}; resume it before importing into it`);
+    }
+
+    const created: Array<{ item: OutlineItem; thoughtId: string }> = [];
+    const anchors = new Map<string, string>();
+    const byContent = new Map<string, string>();
+    const importItems = (section: OutlineSection, branchId: string) => {
+      const ids: string[] = [];
+      for (const item of section.items) {
+        const thought = this.addThought({ branchId, content: item.content, type });
+        ids.push(thought.id);
+        created.push({ item, thoughtId: thought.id });
+        report.thoughtsCreated++;
+        if (item.anchor) {
+          if (anchors.has(item.anchor)) report.warnings.push(`Duplicate anchor ^${item.anchor}; links use the first occurrence`);
+          else anchors.set(item.anchor, thought.id);
+          report.idMap.thoughts[`^${item.anchor}`] = thought.id;
+        }
+        const key = item.content.toLowerCase();
+        if (!byContent.has(key)) byContent.set(key, thought.id);
+        if (item.parent !== undefined && this.linkThoughts(thought.id, ids[item.parent], 'expands')) {
+          report.linksCreated++;
+        }
+      }
+    };
+    const importSection = (section: OutlineSection, parentBranchId?: string) => {
+      const branchId = sectionIds.get(section)!;
+      this.createBranch(branchId, parentBranchId);
+      report.branchesCreated.push(branchId);
+      importItems(section, branchId);
+      section.children.forEach(child => importSection(child, branchId));
+    };
+    if (outline.items.length) {
+      if (!this.branches.has(rootBranchId!)) {
+        this.createBranch(rootBranchId!, options.parentBranchId);
+        report.branchesCreated.push(rootBranchId!);
+      }
+      importItems(outline, rootBranchId!);
+    }
+    outline.children.forEach(child => importSection(child, options.parentBranchId));
+
+    for (const { item, thoughtId } of created) {
+      for (const link of item.links) {
+        const target = anchors.get(link.target)
+          ?? byContent.get(link.target.toLowerCase())
+          ?? (this.findThoughtById(link.target) ? link.target : undefined);
+        if (!target) {
+          report.unresolvedLinks.push({ fromThoughtId: thoughtId, target: link.target });
+        } else if (target === thoughtId) {
+          report.warnings.push(`Ignored self-link on ${thoughtId}`);
+        } else if (this.linkThoughts(thoughtId, target, link.type)) {
+          report.linksCreated++;
+        }
+      }
+    }
+    return report;
+  }
+
+  /**
+   * Import a JSON bundle losslessly: thoughts keep their metadata, timestamps, links and scores,
+   * branches keep their state, insights and cross-references, and the bundle's tasks, snippets
+   * and profiles come along. IDs are kept when free and remapped otherwise; every reference
+   * inside the bundle follows the remapping. References to thoughts or branches that are neither
+   * in the bundle nor in this workspace are dropped and reported.
+   * @param options.parentBranchId Parent for bundle branches whose parent is not part of the bundle
+   */
+  public async importBundle(bundle: WorkspaceBundle, options: { parentBranchId?: string } = {}): Promise<ImportReport> {
+    if (options.parentBranchId && !this.branches.has(options.parentBranchId)) {
+      throw new Error(`Parent branch ${options.parentBranchId} not found`);
+    }
+    await this.loadTasks();
+    const report = this.emptyImportReport('json');
+    const existing = [...this.branches.values(), ...this.archivedBranches.values()];
+    const takenThoughts = new Set(existing.flatMap(b => b.thoughts.map(t => t.id)));
+    const takenInsights = new Set(existing.flatMap(b => b.insights.map(i => i.id)));
+    const takenCrossRefs = new Set(existing.flatMap(b => b.crossRefs.map(r => r.id)));
+    const takenSnippets = new Set(this.snippets.map(s => s.id));
+    const takenTasks = new Set(this.tasks.map(t => t.id));
+    const existingThoughts = new Set(takenThoughts);
+
+    // Allocate every ID before rewriting references, so forward references resolve too
+    const branchMap = new Map<string, string>();
+    const reserved = new Set<string>();
+    for (const b of bundle.branches) {
+      const id = this.uniqueBranchId(b.id, reserved);
+      reserved.add(id);
+      branchMap.set(b.id, id);
+    }
+    const thoughtMap = new Map<string, string>();
+    const insightMap = new Map<string, string>();
+    for (const b of bundle.branches) {
+      b.thoughts.forEach(t => thoughtMap.set(t.id, this.allocateImportId(t.id, 'thought', takenThoughts, 'thoughtCounter')));
+      b.insights.forEach(i => insightMap.set(i.id, this.allocateImportId(i.id, 'insight', takenInsights, 'insightCounter')));
+    }
+    const profileMap = new Map<string, string>();
+    for (const p of bundle.profiles) {
+      const sameId = this.profiles.get(p.id);
+      const sameName = Array.from(this.profiles.values()).find(existingProfile => existingProfile.name === p.name);
+      if (sameId && sameId.name === p.name) {
+        profileMap.set(p.id, p.id);
+      } else if (sameName) {
+        profileMap.set(p.id, sameName.id);
+      } else {
+        const id = sameId ? this.generateId('profile') : p.id;
+        this.profiles.set(id, { ...p, id });
+        profileMap.set(p.id, id);
+      }
+    }
+    const resolveThought = (id: string) => thoughtMap.get(id) ?? (existingThoughts.has(id) ? id : undefined);
+    const resolveBranch = (id: string) => branchMap.get(id) ?? (this.branches.has(id) ? id : undefined);
+
+    for (const source of bundle.branches) {
+      const id = branchMap.get(source.id)!;
+      let parentBranchId = options.parentBranchId;
+      if (source.parentBranchId) {
+        const parent = resolveBranch(source.parentBranchId);
+        if (parent) parentBranchId = parent;
+        else report.warnings.push(`Branch ${source.id}: parent ${source.parentBranchId} not found; imported ${parentBranchId ? `under ${parentBranchId}` : 'as a root branch'}`);
+      }
+      const thoughts: ThoughtData[] = source.thoughts.map(t => {
+        const thoughtId = thoughtMap.get(t.id)!;
+        let profileId = t.profileId;
+        if (profileId) {
+          profileId = profileMap.get(profileId) ?? (this.profiles.has(profileId) ? profileId : undefined);
+          if (!profileId) report.warnings.push(`Thought ${t.id}: profile ${t.profileId} not found; dropped`);
+        }
+        const linkedThoughts = (t.linkedThoughts || []).flatMap(link => {
+          const to = resolveThought(link.toThoughtId);
+          if (!to) {
+            report.unresolvedLinks.push({ fromThoughtId: thoughtId, target: link.toThoughtId });
+            return [];
+          }
+          report.linksCreated++;
+          return [{ ...link, toThoughtId: to }];
+        });
+        const crossRefs = (t.crossRefs || []).flatMap(ref => {
+          const to = resolveThought(ref.toThoughtId);
+          return to ? [{ ...ref, toThoughtId: to }] : [];
+        });
+        return {
+          ...t,
+          id: thoughtId,
+          branchId: id,
+          profileId,
+          linkedThoughts: t.linkedThoughts ? linkedThoughts : undefined,
+          crossRefs: t.crossRefs ? crossRefs : undefined
+        };
+      });
+      const insights: Insight[] = source.insights.map(i => ({
+        ...i,
+        id: insightMap.get(i.id)!,
+        context: i.context.map(c => thoughtMap.get(c) ?? c),
+        parentInsights: i.parentInsights?.map(p => insightMap.get(p) ?? p)
+      }));
+      const crossRefs: CrossReference[] = source.crossRefs.flatMap(r => {
+        const toBranch = resolveBranch(r.toBranch);
+        if (!toBranch) {
+          report.warnings.push(`Branch ${source.id}: cross-reference to missing branch ${r.toBranch} dropped`);
+          return [];
+        }
+        return [{
+          ...r,
+          id: this.allocateImportId(r.id, 'xref', takenCrossRefs, 'crossRefCounter'),
+          fromBranch: id,
+          toBranch,
+          touchpoints: (r.touchpoints || []).map(tp => ({
+            ...tp,
+            fromThought: thoughtMap.get(tp.fromThought) ?? tp.fromThought,
+            toThought: thoughtMap.get(tp.toThought) ?? tp.toThought
+          }))
+        }];
+      });
+      this.branches.set(id, { ...source, id, parentBranchId, thoughts, insights, crossRefs });
+      this.markStale(thoughts, [id]);
+      this.historyCache.delete(id);
+      this.statusCache.delete(id);
+      this.insightsCache.delete(id);
+      this.summaryCache.delete(id);
+      report.branchesCreated.push(id);
+      report.thoughtsCreated += thoughts.length;
+    }
+
+    // A malformed bundle can chain its branches' parents into a loop; cut it where it closes
+    for (const id of report.branchesCreated) {
+      const branch = this.branches.get(id)!;
+      const seen = new Set<string>();
+      let parentId = branch.parentBranchId;
+      while (parentId && parentId !== id && !seen.has(parentId)) {
+        seen.add(parentId);
+        parentId = this.branches.get(parentId)?.parentBranchId;
+      }
+      if (parentId === id) {
+        report.warnings.push(`Branch ${id}: parent ${branch.parentBranchId} forms a cycle; imported as a root branch`);
+        branch.parentBranchId = undefined;
+      }
+    }
+
+    for (const task of bundle.tasks) {
+      const branchId = branchMap.get(task.branchId);
+      if (!branchId) {
+        report.warnings.push(`Task ${task.id}: branch ${task.branchId} is not in the bundle; skipped`);
+        continue;
+      }
+      const thoughtId = task.thoughtId ? resolveThought(task.thoughtId) : undefined;
+      // Rebuild extracted-task IDs so a later extract-tasks recognizes them instead of duplicating
+      const prefix = task.thoughtId ? `task-${task.branchId}-${task.thoughtId}-` : '';
+      let id = prefix && thoughtId && task.id.startsWith(prefix)
+        ? `task-${branchId}-${thoughtId}-${task.id.slice(prefix.length)}`
+        : task.id;
+      for (let n = 2; takenTasks.has(id); n++) id = `${task.id}-${n}`;
+      takenTasks.add(id);
+      this.tasks.push({ ...task, id, branchId, thoughtId });
+    }
+    for (const snippet of bundle.snippets) {
+      this.snippets.push({
+        ...snippet,
+        id: this.allocateImportId(snippet.id, 'snippet', takenSnippets, 'snippetCounter'),
+        tags: snippet.tags.map(tag => branchMap.get(tag) ?? tag)
+      });
+    }
+
+    for (const [from, to] of branchMap) if (from !== to) report.idMap.branches[from] = to;
+    for (const [from, to] of thoughtMap) if (from !== to) report.idMap.thoughts[from] = to;
+    if (!this.activeBranchId && report.branchesCreated.length) {
+      this.activeBranchId = report.branchesCreated[0];
+    }
+    if (bundle.tasks.length) await this.saveTasks();
+    this.persist();
+    return report;
+  }
+
+  private emptyImportReport(format: ImportReport['format']): ImportReport {
+    return {
+      format,
+      branchesCreated: [],
+      thoughtsCreated: 0,
+      linksCreated: 0,
+      idMap: { branches: {}, thoughts: {} },
+      unresolvedLinks: [],
+      warnings: []
+    };
+  }
+
+  // First of `base`, `base-2`, `base-3`, ... that is neither an existing branch nor reserved
+  private uniqueBranchId(base: string, reserved: Set<string>): string {
+    let id = base;
+    for (let n = 2; this.branches.has(id) || this.archivedBranches.has(id) || reserved.has(id); n++) id = `${base}-${n}`;
+    return id;
+  }
+
+  // Keep an imported ID when it is free, otherwise draw a fresh one from the counter.
+  // The counter is moved past kept `<prefix>-<n>` IDs so later IDs never collide with them.
+  private allocateImportId(
+    id: string,
+    prefix: string,
+    taken: Set<string>,
+    counter: 'thoughtCounter' | 'insightCounter' | 'crossRefCounter' | 'snippetCounter'
+  ): string {
+    let allocated = id;
+    while (!allocated || taken.has(allocated)) allocated = `${prefix}-${++this[counter]}`;
+    const numeric = allocated.match(new RegExp(`^${prefix}-(\\d+)$`));
+    if (numeric) this[counter] = Math.max(this[counter], Number(numeric[1]));
+    taken.add(allocated);
+    return allocated;
+  }
+
   /** Retrieve all tasks for a branch or all tasks */
   public async getTasks(branchId?: string): Promise<TaskItem[]> {
     await this.loadTasks();
@@ -1281,7 +4093,7 @@ public async updateTaskStatus(taskId: string, status: 'open' | 'in_progress' | '
     task.assignee = assignee;
     task.lastEditor = assignee;
     task.auditTrail = task.auditTrail || [];
-    task.auditTrail.push({ action: `Assigned to ${assignee}`, user: assignee, timestamp: new Date().toISOString() });
+    task.auditTrail.push({ action: `Assigned to ${assignee}`, user: assignee, timestamp: this.now().toISOString() });
     await this.saveTasks();
     return true;
   }
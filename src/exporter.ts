@@ -0,0 +1,252 @@
+// Exporter: render branches as Markdown documents, an Obsidian vault or a JSON bundle
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { ThoughtBranch, ThoughtData, TaskItem, CodeSnippet, Profile, WorkspaceBundle } from './types.js';
+
+export type ExportFormat = 'markdown' | 'obsidian' | 'json';
+export const EXPORT_FORMATS: ExportFormat[] = ['markdown', 'obsidian', 'json'];
+
+// Identifies JSON bundles; bump the version when the bundle layout changes incompatibly
+export const BUNDLE_FORMAT = 'branch-thinking-bundle';
+export const BUNDLE_VERSION = 1;
+
+export interface ExportFile {
+  path: string; // relative to the export directory, '/'-separated
+  content: string;
+}
+
+export interface ExportSource {
+  /** Branches to export. */
+  branches: ThoughtBranch[];
+  /** Every branch in the workspace, used to resolve parent folders. */
+  allBranches: ThoughtBranch[];
+  tasks: TaskItem[];
+  snippets: CodeSnippet[];
+  profiles: Profile[];
+}
+
+/**
+ * Render the source in the requested format. Nothing is written to disk.
+ */
+export function renderExport(source: ExportSource, format: ExportFormat): ExportFile[] {
+  if (format === 'json') return [{ path: 'bundle.json', content: JSON.stringify(buildBundle(source), null, 2) + '\n' }];
+  return format === 'obsidian' ? renderObsidianVault(source) : renderMarkdown(source);
+}
+
+/**
+ * Lossless bundle of the exported branches with the tasks, snippets and profiles that belong to them.
+ * `import` accepts it back, so export + import round-trips a branch set between workspaces.
+ */
+export function buildBundle(source: ExportSource): WorkspaceBundle {
+  const ids = new Set(source.branches.map(b => b.id));
+  const profileIds = new Set(source.branches.flatMap(b => b.thoughts.map(t => t.profileId)).filter(Boolean));
+  return {
+    format: BUNDLE_FORMAT,
+    version: BUNDLE_VERSION,
+    exportedAt: new Date().toISOString(),
+    branches: source.branches,
+    tasks: source.tasks.filter(t => ids.has(t.branchId)),
+    snippets: source.snippets.filter(s => s.tags.some(tag => ids.has(tag))),
+    profiles: source.profiles.filter(p => profileIds.has(p.id))
+  };
+}
+
+/**
+ * Write rendered files below `dir`, creating folders as needed.
+ * @returns absolute paths of the written files
+ */
+export async function writeExportFiles(dir: string, files: ExportFile[]): Promise<string[]> {
+  const written: string[] = [];
+  for (const file of files) {
+    const target = path.join(dir, ...file.path.split('/'));
+    await fs.mkdir(path.dirname(target), { recursive: true });
+    await fs.writeFile(target, file.content, 'utf8');
+    written.push(target);
+  }
+  return written;
+}
+
+// --- Plain Markdown: one document per branch ---
+
+function renderMarkdown(source: ExportSource): ExportFile[] {
+  return source.branches.map(branch => ({
+    path: `${fileName(branch.id)}.md`,
+    content: renderBranchDocument(branch, source)
+  }));
+}
+
+function renderBranchDocument(branch: ThoughtBranch, source: ExportSource): string {
+  const lines: string[] = [`# ${branch.id}`, ''];
+  lines.push(`- **State:** ${branch.state}`);
+  if (branch.parentBranchId) lines.push(`- **Parent:** ${branch.parentBranchId}`);
+  lines.push(`- **Priority:** ${branch.priority.toFixed(2)} | **Confidence:** ${branch.confidence.toFixed(2)}`);
+  lines.push('', '## Thoughts', '');
+  for (const t of branch.thoughts) {
+    lines.push(`### ${t.id} (${t.metadata.type})`, '', t.content, '');
+    lines.push(`- Created: ${new Date(t.timestamp).toISOString()}`);
+    lines.push(`- Confidence: ${t.metadata.confidence}${typeof t.score === 'number' ? ` | Score: ${t.score.toFixed(2)}` : ''}`);
+    if (t.metadata.keyPoints.length) {
+      lines.push('- Key points:');
+      t.metadata.keyPoints.forEach(kp => lines.push(`  - ${kp}`));
+    }
+    for (const link of t.linkedThoughts || []) {
+      lines.push(`- ${link.type} → ${link.toThoughtId}${link.reason ? `: ${link.reason}` : ''}`);
+    }
+    lines.push('');
+  }
+  lines.push(...renderBranchExtras(branch, source, id => id));
+  return lines.join('\n').trimEnd() + '\n';
+}
+
+// Insights, tasks, snippets and cross-references shared by both formats
+function renderBranchExtras(branch: ThoughtBranch, source: ExportSource, ref: (id: string) => string): string[] {
+  const lines: string[] = [];
+  const insights = branch.insights.filter(i => i.status !== 'rejected');
+  if (insights.length) {
+    lines.push('## Insights', '');
+    insights.forEach(i => lines.push(`- **${i.type}:** ${i.content}${i.pinned ? ' (pinned)' : ''}`));
+    lines.push('');
+  }
+  const tasks = source.tasks.filter(t => t.branchId === branch.id);
+  if (tasks.length) {
+    lines.push('## Tasks', '');
+    tasks.forEach(t => {
+      const details = [t.type, t.status === 'in_progress' ? 'in progress' : '', t.assignee ? `@${t.assignee}` : '', t.due ? `due ${t.due}` : '']
+        .filter(Boolean).join(', ');
+      const origin = t.thoughtId ? ` (from ${ref(t.thoughtId)})` : '';
+      lines.push(`- [${t.status === 'closed' ? 'x' : ' '}] ${t.content}${details ? ` — ${details}` : ''}${origin}`);
+    });
+    lines.push('');
+  }
+  const snippets = source.snippets.filter(s => s.tags.includes(branch.id));
+  if (snippets.length) {
+    lines.push('## Snippets', '');
+    snippets.forEach(s => {
+      lines.push(`### ${s.id}`, '', fence(s.content), '');
+      lines.push(`Tags: ${s.tags.join(', ')}${s.author ? ` | Author: ${s.author}` : ''}`, '');
+    });
+  }
+  if (branch.crossRefs.length) {
+    lines.push('## Cross References', '');
+    branch.crossRefs.forEach(r => lines.push(`- ${r.type} → ${ref(r.toBranch)}: ${r.reason} (${r.strength.toFixed(2)})`));
+    lines.push('');
+  }
+  return lines;
+}
+
+// --- Obsidian vault: one note per thought, branch hierarchy as folders ---
+
+function renderObsidianVault(source: ExportSource): ExportFile[] {
+  const byId = new Map(source.allBranches.map(b => [b.id, b]));
+  const files: ExportFile[] = [];
+  for (const branch of source.branches) {
+    const folder = branchFolder(branch, byId);
+    files.push({ path: `${folder}/${fileName(branch.id)}.md`, content: renderBranchNote(branch, source) });
+    for (const t of branch.thoughts) {
+      files.push({ path: `${folder}/${fileName(t.id)}.md`, content: renderThoughtNote(t) });
+    }
+  }
+  return files;
+}
+
+// Folder path from the root ancestor down to the branch itself
+function branchFolder(branch: ThoughtBranch, byId: Map<string, ThoughtBranch>): string {
+  const chain: string[] = [];
+  const seen = new Set<string>();
+  let current: ThoughtBranch | undefined = branch;
+  while (current && !seen.has(current.id)) {
+    seen.add(current.id);
+    chain.unshift(fileName(current.id));
+    current = current.parentBranchId ? byId.get(current.parentBranchId) : undefined;
+  }
+  return chain.join('/');
+}
+
+function renderBranchNote(branch: ThoughtBranch, source: ExportSource): string {
+  const lines: string[] = [
+    frontmatter({
+      type: 'branch',
+      state: branch.state,
+      parent: branch.parentBranchId,
+      priority: round(branch.priority),
+      confidence: round(branch.confidence),
+      score: branch.score !== undefined ? round(branch.score) : undefined
+    }),
+    `# ${branch.id}`,
+    ''
+  ];
+  if (branch.parentBranchId) lines.push(`Parent: ${wikilink(branch.parentBranchId)}`, '');
+  lines.push('## Thoughts', '');
+  branch.thoughts.forEach(t => lines.push(`- ${wikilink(t.id)} — ${t.content.split('\n')[0].slice(0, 80)}`));
+  lines.push('');
+  lines.push(...renderBranchExtras(branch, source, wikilink));
+  return lines.join('\n').trimEnd() + '\n';
+}
+
+function renderThoughtNote(t: ThoughtData): string {
+  const lines: string[] = [
+    frontmatter({
+      id: t.id,
+      branch: t.branchId,
+      type: t.metadata.type,
+      confidence: t.metadata.confidence,
+      score: typeof t.score === 'number' ? round(t.score) : undefined,
+      created: new Date(t.timestamp).toISOString(),
+      profile: t.profileId,
+      keyPoints: t.metadata.keyPoints.length ? t.metadata.keyPoints : undefined
+    }),
+    t.content,
+    '',
+    `Branch: ${wikilink(t.branchId)}`,
+    ''
+  ];
+  if (t.linkedThoughts?.length) {
+    lines.push('## Links', '');
+    t.linkedThoughts.forEach(l => lines.push(`- ${l.type}:: ${wikilink(l.toThoughtId)}${l.reason ? ` — ${l.reason}` : ''}`));
+    lines.push('');
+  }
+  if (t.crossRefs?.length) {
+    lines.push('## Related', '');
+    t.crossRefs.forEach(cr => lines.push(`- ${wikilink(cr.toThoughtId)} (${cr.type}, ${cr.score.toFixed(2)})`));
+    lines.push('');
+  }
+  return lines.join('\n').trimEnd() + '\n';
+}
+
+// --- Helpers ---
+
+// Make an ID safe as a file name and as a wikilink target
+export function fileName(id: string): string {
+  return id.replace(/[\\/:*?"<>|#^[\]]/g, '-').trim() || 'untitled';
+}
+
+function wikilink(id: string): string {
+  return `[[${fileName(id)}]]`;
+}
+
+// YAML frontmatter; strings are JSON-quoted, which YAML accepts as double-quoted scalars
+function frontmatter(fields: Record<string, string | number | string[] | undefined>): string {
+  const lines = ['---'];
+  for (const [key, value] of Object.entries(fields)) {
+    if (value === undefined) continue;
+    if (Array.isArray(value)) {
+      lines.push(`${key}:`);
+      value.forEach(v => lines.push(`  - ${JSON.stringify(v)}`));
+    } else {
+      lines.push(`${key}: ${typeof value === 'number' ? value : JSON.stringify(value)}`);
+    }
+  }
+  lines.push('---', '');
+  return lines.join('\n');
+}
+
+// Code fence long enough not to collide with backticks inside the snippet
+function fence(content: string): string {
+  const longest = Math.max(2, ...(content.match(/`+/g) || []).map(m => m.length));
+  const ticks = '`'.repeat(longest + 1);
+  return `${ticks}\n${content}\n${ticks}`;
+}
+
+function round(n: number): number {
+  return Math.round(n * 1000) / 1000;
+}
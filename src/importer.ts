@@ -0,0 +1,289 @@
+// Importer: parse Markdown outlines and JSON bundles into structures BranchManager can apply
+import { CodeSnippet, CrossReference, Insight, ProfileSettings, TaskItem, ThoughtBranch, ThoughtData, ThoughtLinkType, WorkspaceBundle } from './types.js';
+import { BUNDLE_FORMAT, BUNDLE_VERSION } from './exporter.js';
+
+export type ImportFormat = 'markdown' | 'json';
+export const IMPORT_FORMATS: ImportFormat[] = ['markdown', 'json'];
+
+const LINK_TYPES: ThoughtLinkType[] = ['supports', 'contradicts', 'related', 'expands', 'refines'];
+
+export interface OutlineLink {
+  target: string;
+  type: ThoughtLinkType;
+}
+
+export interface OutlineItem {
+  content: string;
+  /** Block anchor (`^id` at the end of the item) that other items can link to. */
+  anchor?: string;
+  /** Index of the enclosing list item in the same section, for nested lists. */
+  parent?: number;
+  links: OutlineLink[];
+}
+
+export interface OutlineSection {
+  title: string;
+  /** Heading level; 0 for the root, which holds items that come before the first heading. */
+  level: number;
+  items: OutlineItem[];
+  children: OutlineSection[];
+}
+
+/**
+ * Parse a Markdown outline. Headings become sections nested by level, list items become
+ * items (nested lists keep a pointer to their parent item), and indented or lazy continuation
+ * lines are folded into the item above. Paragraphs outside lists and YAML frontmatter are ignored.
+ */
+export function parseMarkdownOutline(text: string): OutlineSection {
+  const lines = text.replace(/\r\n?/g, '\n').split('\n');
+  const root: OutlineSection = { title: '', level: 0, items: [], children: [] };
+  const sections: OutlineSection[] = [root];
+  let listStack: Array<{ indent: number; index: number }> = [];
+  let current: { item: OutlineItem; indent: number } | null = null;
+  let fence: { marker: string; keep: boolean } | null = null;
+  let previousBlank = false;
+
+  let start = 0;
+  if (lines[0]?.trim() === '---') {
+    const end = lines.findIndex((l, i) => i > 0 && l.trim() === '---');
+    if (end > 0) start = end + 1;
+  }
+
+  for (let i = start; i < lines.length; i++) {
+    const line = lines[i];
+    const indent = indentWidth(line);
+    const fenceMatch = line.match(/^\s*(`{3,}|~{3,})/);
+    if (fence) {
+      const closes = !!fenceMatch && fenceMatch[1][0] === fence.marker[0] && fenceMatch[1].length >= fence.marker.length;
+      if (fence.keep && current) current.item.content += '\n' + line.trim();
+      if (closes) fence = null;
+      continue;
+    }
+    if (fenceMatch) {
+      // Code indented under a list item belongs to it; anything else is skipped
+      const keep = !!current && indent > current.indent;
+      if (keep) current!.item.content += '\n' + line.trim();
+      fence = { marker: fenceMatch[1], keep };
+      previousBlank = false;
+      continue;
+    }
+    if (!line.trim()) {
+      previousBlank = true;
+      continue;
+    }
+    const heading = line.match(/^(#{1,6})\s+(.*?)\s*#*\s*$/);
+    if (heading) {
+      const level = heading[1].length;
+      while (sections[sections.length - 1].level >= level) sections.pop();
+      const section: OutlineSection = { title: heading[2].trim(), level, items: [], children: [] };
+      sections[sections.length - 1].children.push(section);
+      sections.push(section);
+      listStack = [];
+      current = null;
+      previousBlank = false;
+      continue;
+    }
+    if (/^\s*([-*_])(\s*\1){2,}\s*$/.test(line)) {
+      // Thematic break ends any list
+      listStack = [];
+      current = null;
+      previousBlank = false;
+      continue;
+    }
+    const listItem = line.match(/^(\s*)(?:[-*+]|\d+[.)])\s+(.*)$/);
+    const section = sections[sections.length - 1];
+    if (listItem) {
+      while (listStack.length && listStack[listStack.length - 1].indent >= indent) listStack.pop();
+      const item: OutlineItem = { content: listItem[2], parent: listStack[listStack.length - 1]?.index, links: [] };
+      section.items.push(item);
+      listStack.push({ indent, index: section.items.length - 1 });
+      current = { item, indent };
+    } else if (current && (indent > current.indent || !previousBlank)) {
+      current.item.content += '\n' + line.trim();
+    } else {
+      // A paragraph outside any list
+      listStack = [];
+      current = null;
+    }
+    previousBlank = false;
+  }
+
+  finalizeSection(root);
+  return root;
+}
+
+// Strip checkboxes and anchors, collect links, and drop items that ended up empty
+function finalizeSection(section: OutlineSection): void {
+  const kept: OutlineItem[] = [];
+  const newIndex = new Map<number, number>();
+  section.items.forEach((item, index) => {
+    let content = item.content.trim();
+    const checkbox = content.match(/^\[([ xX])\]\s+/);
+    if (checkbox) {
+      // Unchecked boxes read as TODOs so extract-tasks picks them up
+      content = (checkbox[1] === ' ' ? 'TODO: ' : '') + content.slice(checkbox[0].length);
+    }
+    const anchor = content.match(/\s*\^([A-Za-z0-9-]+)$/);
+    if (anchor) {
+      item.anchor = anchor[1];
+      content = content.slice(0, anchor.index).trimEnd();
+    }
+    const linkPattern = /(?:\b(supports|contradicts|related|expands|refines)::\s*)?\[\[([^\]|#]+)(?:#\^?([^\]|]*))?(?:\|[^\]]*)?\]\]/g;
+    let match: RegExpExecArray | null;
+    while ((match = linkPattern.exec(content)) !== null) {
+      // [[note#^block]] points at a block anchor, so the anchor is the more precise target
+      const target = (match[3] || match[2]).trim();
+      const type = (match[1] as ThoughtLinkType | undefined) ?? 'related';
+      if (target && LINK_TYPES.includes(type)) item.links.push({ target, type });
+    }
+    if (!content) return;
+    item.content = content;
+    newIndex.set(index, kept.length);
+    kept.push(item);
+  });
+  kept.forEach(item => {
+    item.parent = item.parent !== undefined ? newIndex.get(item.parent) : undefined;
+  });
+  section.items = kept;
+  section.children.forEach(finalizeSection);
+}
+
+function indentWidth(line: string): number {
+  const leading = line.match(/^\s*/)![0];
+  return leading.replace(/\t/g, '    ').length;
+}
+
+type JsonObject = Record<string, unknown>;
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Objects of an optional array field; anything else in it makes the bundle malformed
+function objects(value: unknown, what: string): JsonObject[] {
+  if (value === undefined) return [];
+  if (!Array.isArray(value) || !value.every(isObject)) throw new Error(`Bundle ${what} must be an array of objects`);
+  return value;
+}
+
+// A timestamp given as an ISO string or epoch ms; missing means the time of the import
+function timestamp(value: unknown, what: string): Date {
+  if (value === undefined) return new Date();
+  const date = typeof value === 'string' || typeof value === 'number' ? new Date(value) : null;
+  if (!date || isNaN(date.getTime())) throw new Error(`${what} has an invalid timestamp: ${JSON.stringify(value)}`);
+  return date;
+}
+
+function strings(value: unknown, what: string): string[] {
+  if (value === undefined) return [];
+  if (!Array.isArray(value) || value.some(v => typeof v !== 'string')) throw new Error(`${what} must be an array of strings`);
+  return value;
+}
+
+/**
+ * Parse and validate a JSON bundle produced by `export` with format json.
+ * Throws before anything is imported when the bundle is malformed.
+ */
+export function parseBundle(text: string): WorkspaceBundle {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (e) {
+    throw new Error(`Invalid JSON bundle: ${e instanceof Error ? e.message : String(e)}`);
+  }
+  if (!isObject(data) || data.format !== BUNDLE_FORMAT || !Array.isArray(data.branches)) {
+    throw new Error(`Not a branch-thinking bundle (expected "format": "${BUNDLE_FORMAT}" and a branches array)`);
+  }
+  if (typeof data.version === 'number' && data.version > BUNDLE_VERSION) {
+    throw new Error(`Unsupported bundle version ${data.version} (this server reads up to ${BUNDLE_VERSION})`);
+  }
+  const branches: ThoughtBranch[] = data.branches.map((b: unknown, i: number) => {
+    if (!isObject(b) || typeof b.id !== 'string' || !b.id || !Array.isArray(b.thoughts)) {
+      throw new Error(`Bundle branch #${i + 1} is missing an id or thoughts array`);
+    }
+    const branchId = b.id;
+    const thoughts: ThoughtData[] = b.thoughts.map((t: unknown, j: number) => {
+      if (!isObject(t) || typeof t.id !== 'string' || typeof t.content !== 'string' || !t.content.trim()) {
+        throw new Error(`Bundle branch ${branchId}: thought #${j + 1} is missing an id or content`);
+      }
+      if (t.metadata !== undefined && !isObject(t.metadata)) {
+        throw new Error(`Bundle branch ${branchId}: thought ${t.id} has invalid metadata`);
+      }
+      return {
+        ...(t as Partial<ThoughtData>),
+        id: t.id,
+        content: t.content,
+        branchId,
+        timestamp: timestamp(t.timestamp, `Bundle branch ${branchId}: thought ${t.id}`),
+        metadata: { type: 'thought', confidence: 1.0, keyPoints: [], ...(t.metadata as Partial<ThoughtData['metadata']>) }
+      };
+    });
+    return {
+      ...(b as Partial<ThoughtBranch>),
+      id: branchId,
+      state: (b.state as ThoughtBranch['state']) ?? 'active',
+      priority: typeof b.priority === 'number' ? b.priority : 1.0,
+      confidence: typeof b.confidence === 'number' ? b.confidence : 1.0,
+      thoughts,
+      insights: objects(b.insights, `branch ${branchId} insights`) as unknown as Insight[],
+      crossRefs: objects(b.crossRefs, `branch ${branchId} crossRefs`) as unknown as CrossReference[]
+    };
+  });
+  const tasks = objects(data.tasks, 'tasks').map((t, i) => {
+    if (typeof t.id !== 'string' || typeof t.content !== 'string' || typeof t.branchId !== 'string') {
+      throw new Error(`Bundle task #${i + 1} is missing an id, content or branchId`);
+    }
+    return t as unknown as TaskItem;
+  });
+  const snippets: CodeSnippet[] = objects(data.snippets, 'snippets').map((sn, i) => {
+    if (typeof sn.id !== 'string' || typeof sn.content !== 'string') {
+      throw new Error(`Bundle snippet #${i + 1} is missing an id or content`);
+    }
+    return {
+      ...(sn as Partial<CodeSnippet>),
+      id: sn.id,
+      content: sn.content,
+      tags: strings(sn.tags, `Bundle snippet ${sn.id} tags`),
+      created: timestamp(sn.created, `Bundle snippet ${sn.id}`)
+    };
+  });
+  const profiles = objects(data.profiles, 'profiles').map((pr, i) => {
+    if (typeof pr.id !== 'string' || typeof pr.name !== 'string') {
+      throw new Error(`Bundle profile #${i + 1} is missing an id or name`);
+    }
+    return { id: pr.id, name: pr.name, settings: isObject(pr.settings) ? pr.settings as ProfileSettings : {} };
+  });
+  return {
+    format: BUNDLE_FORMAT,
+    version: typeof data.version === 'number' ? data.version : BUNDLE_VERSION,
+    exportedAt: typeof data.exportedAt === 'string' ? data.exportedAt : '',
+    branches,
+    tasks,
+    snippets,
+    profiles
+  };
+}
+
+/**
+ * Pick the import format from the file extension, falling back to sniffing the content.
+ */
+export function detectImportFormat(content: string, filePath?: string): ImportFormat {
+  if (filePath) {
+    if (/\.json$/i.test(filePath)) return 'json';
+    if (/\.(md|markdown)$/i.test(filePath)) return 'markdown';
+  }
+  return content.trimStart().startsWith('{') ? 'json' : 'markdown';
+}
+
+/**
+ * Turn a heading into a branch ID: lowercase, words joined by '-'.
+ */
+export function slugify(title: string): string {
+  const slug = title
+    .toLowerCase()
+    .replace(/\[\[([^\]|]+)(?:\|([^\]]*))?\]\]/g, (_, target, alias) => alias || target)
+    .replace(/[^\p{L}\p{N}]+/gu, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 64);
+  return slug || 'section';
+}
@@ -4,10 +4,68 @@
 import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 import { CallToolRequestSchema, ListToolsRequestSchema, Tool } from "@modelcontextprotocol/sdk/types.js";
-import { BranchManager } from './branchManager.js';
+import { BranchManager, MERGE_STRATEGIES, BRANCH_STATES, DEFAULT_SCORING_WEIGHTS, INSIGHT_TYPES } from './branchManager.js';
 import { AutoExecutionPolicy, CommandSafetyValidator, WorkflowPlanner, AutoExecutionPolicyRule } from './autoExecution.js';
-import { BranchingThoughtInput, VisualizationOptions } from './types.js';
+import { EventJournal, parseAsOf } from './journal.js';
+import { UndoStack, DEFAULT_UNDO_LIMIT } from './undo.js';
+import { WorkspaceManager } from './workspaces.js';
+import { STORAGE_BACKENDS, StorageBackend, migrateStorage } from './storage.js';
+import { EXPORT_FORMATS, ExportFormat, renderExport, writeExportFiles } from './exporter.js';
+import { IMPORT_FORMATS, ImportFormat, detectImportFormat, parseBundle, parseMarkdownOutline } from './importer.js';
+import { BranchingThoughtInput, VisualizationOptions, JournalEntry, MergeStrategy, BranchState, UndoState, ThoughtLinkType, ThoughtBranch, TypeStrictness } from './types.js';
 import chalk from 'chalk';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+
+const DEFAULT_ACTOR = 'agent';
+
+// Lifecycle commands and the state each one moves a branch to
+const LIFECYCLE_COMMANDS: Record<string, BranchState> = {
+  'suspend-branch': 'suspended',
+  'resume-branch': 'active',
+  'complete-branch': 'completed',
+  'abandon-branch': 'dead_end'
+};
+
+// Commands that change workspace or task state; each successful run is appended to the journal
+const MUTATING_COMMANDS = [
+  'create-branch', 'focus', 'add-thought', 'link-thoughts', 'add-snippet',
+  'extract-tasks', 'update-task-status', 'advance-task', 'assign-task', 'import', 'merge-branches', 'fork-branch', 'move-branch',
+  'archive-branch', 'unarchive-branch', 'delete-branch', 'edit-thought', 'delete-thought', 'accept-link', 'reject-link',
+  'unlink-thoughts', 'create-profile', 'update-profile', 'delete-profile',
+  'define-thought-type', 'set-thought-type-strictness', 'synthesize', 'accept-insight', 'reject-insight', 'pin-insight', 'edit-insight',
+  ...Object.keys(LIFECYCLE_COMMANDS)
+];
+
+// Workspace commands are available in every session state
+const WORKSPACE_COMMANDS = ['create-workspace', 'switch-workspace', 'list-workspaces', 'migrate-storage'];
+
+// Profile commands are available in every session state, so profiles can be set up before the first branch
+const PROFILE_COMMANDS = ['create-profile', 'list-profiles', 'update-profile', 'delete-profile'];
+
+// Thought type registry commands are available in every session state as well
+const THOUGHT_TYPE_COMMANDS = ['list-thought-types', 'define-thought-type', 'set-thought-type-strictness'];
+
+// Undo and redo are journaled like mutating commands but never recorded on the undo stack themselves
+const HISTORY_COMMANDS = ['undo', 'redo'];
+
+// Whether a run of a command changes state: dry runs never do, and check-integrity only when it repairs
+function isMutating(type: string, params: { dryRun?: boolean; repair?: boolean }): boolean {
+  if (params.dryRun === true) return false;
+  if (type === 'check-integrity') return params.repair === true;
+  return MUTATING_COMMANDS.includes(type);
+}
+
+// Parse a `states` filter: one state or a list of them
+function parseStates(value: unknown): BranchState[] | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  const states = (Array.isArray(value) ? value : [value]).map(String);
+  const unknown = states.filter(s => !BRANCH_STATES.includes(s as BranchState));
+  if (unknown.length) {
+    throw new Error(`Unknown branch state: ${unknown.join(', ')} (expected ${BRANCH_STATES.join(', ')})`);
+  }
+  return states as BranchState[];
+}
 
 enum SessionState {
   INIT = 'INIT',
@@ -25,37 +83,101 @@ class BranchingThoughtServer {
       { type: 'create-branch', safe: true },
       { type: 'semantic-search', safe: true },
       { type: 'extract-tasks', safe: true },
+      { type: 'history', safe: true },
+      { type: 'insights', safe: true },
+      { type: 'visualize', safe: true },
+      { type: 'summarize-branch', safe: true },
+      { type: 'journal', safe: true },
+      // Replaying, deleting and migrating rewrite or drop state wholesale, so they only run once a policy rule allows them
+      { type: 'replay-journal', safe: false },
+      { type: 'create-workspace', safe: true },
+      { type: 'switch-workspace', safe: true },
+      { type: 'list-workspaces', safe: true },
+      { type: 'migrate-storage', safe: false },
+      { type: 'export', safe: true },
+      { type: 'import', safe: true },
+      { type: 'merge-branches', safe: true },
+      { type: 'fork-branch', safe: true },
+      { type: 'diff-branches', safe: true },
+      { type: 'tree', safe: true },
+      { type: 'ancestors', safe: true },
+      { type: 'descendants', safe: true },
+      { type: 'move-branch', safe: true },
+      { type: 'archive-branch', safe: true },
+      { type: 'unarchive-branch', safe: true },
+      { type: 'delete-branch', safe: false },
+      { type: 'edit-thought', safe: true },
+      { type: 'delete-thought', safe: true },
+      { type: 'thought-revisions', safe: true },
+      { type: 'beliefs', safe: true },
+      { type: 'suggested-links', safe: true },
+      { type: 'accept-link', safe: true },
+      { type: 'reject-link', safe: true },
+      { type: 'links', safe: true },
+      { type: 'unlink-thoughts', safe: true },
+      { type: 'check-integrity', safe: true },
+      { type: 'query', safe: true },
+      { type: 'list-analyzers', safe: true },
+      { type: 'topics', safe: true },
+      { type: 'sentiment-timeline', safe: true },
+      { type: 'synthesize', safe: true },
+      { type: 'accept-insight', safe: true },
+      { type: 'reject-insight', safe: true },
+      { type: 'pin-insight', safe: true },
+      { type: 'edit-insight', safe: true },
+      { type: 'create-profile', safe: true },
+      { type: 'list-profiles', safe: true },
+      { type: 'update-profile', safe: true },
+      { type: 'delete-profile', safe: true },
+      { type: 'list-thought-types', safe: true },
+      { type: 'define-thought-type', safe: true },
+      { type: 'set-thought-type-strictness', safe: true },
+      { type: 'undo', safe: true },
+      { type: 'redo', safe: true },
+      { type: 'list', safe: true },
+      { type: 'suspend-branch', safe: true },
+      { type: 'resume-branch', safe: true },
+      { type: 'complete-branch', safe: true },
+      { type: 'abandon-branch', safe: true },
       // Add more as needed, user can modify at runtime
     ]
   });
   private commandSafetyValidator = new CommandSafetyValidator(this.autoExecutionPolicy);
   private workflowPlanner = new WorkflowPlanner();
   private sessionState: SessionState = SessionState.INIT;
+  // Per-session: cleared when the workspace is switched or rebuilt from the journal
+  private undoStack = new UndoStack<UndoState>();
 
   // Map session states to allowed commands
   private allowedCommands: Record<SessionState, string[]> = {
-    [SessionState.INIT]: ['create-branch', 'list'],
-    [SessionState.BRANCH_CREATED]: ['focus', 'list', 'create-branch'],
+    [SessionState.INIT]: ['create-branch', 'list', 'tree', 'ancestors', 'descendants', 'journal', 'import', ...PROFILE_COMMANDS, ...THOUGHT_TYPE_COMMANDS, ...WORKSPACE_COMMANDS, ...HISTORY_COMMANDS],
+    [SessionState.BRANCH_CREATED]: ['focus', 'list', 'tree', 'ancestors', 'descendants', 'create-branch', ...PROFILE_COMMANDS, ...THOUGHT_TYPE_COMMANDS, ...WORKSPACE_COMMANDS, ...HISTORY_COMMANDS],
     [SessionState.BRANCH_FOCUSED]: [
       'add-thought', 'insights', 'crossrefs', 'hub-thoughts', 'semantic-search',
       'link-thoughts', 'add-snippet', 'snippet-search', 'summarize-branch',
       'doc-thought', 'extract-tasks', 'review-branch', 'visualize', 'ask',
-      'focus', 'list', 'create-branch', 'history', 'summarize-tasks', 'advance-task', 'assign-task'
+      'focus', 'list', 'tree', 'ancestors', 'descendants', 'create-branch', 'history', 'summarize-tasks', 'advance-task', 'assign-task',
+      'journal', 'export', 'import', 'merge-branches', 'fork-branch', 'diff-branches', 'move-branch', 'archive-branch', 'unarchive-branch', 'delete-branch',
+      'edit-thought', 'delete-thought', 'thought-revisions', 'beliefs', 'suggested-links', 'accept-link', 'reject-link', 'links', 'unlink-thoughts', 'check-integrity', 'query', 'list-analyzers', 'topics', 'sentiment-timeline', 'synthesize', 'accept-insight', 'reject-insight', 'pin-insight', 'edit-insight', ...PROFILE_COMMANDS, ...THOUGHT_TYPE_COMMANDS, ...Object.keys(LIFECYCLE_COMMANDS), ...WORKSPACE_COMMANDS, ...HISTORY_COMMANDS
     ],
     [SessionState.THOUGHT_ADDED]: [
       'insights', 'crossrefs', 'hub-thoughts', 'semantic-search',
       'link-thoughts', 'add-snippet', 'snippet-search', 'summarize-branch',
       'doc-thought', 'extract-tasks', 'review-branch', 'visualize', 'ask',
-      'focus', 'list', 'create-branch', 'history', 'summarize-tasks', 'advance-task', 'assign-task', 'add-thought'
+      'focus', 'list', 'tree', 'ancestors', 'descendants', 'create-branch', 'history', 'summarize-tasks', 'advance-task', 'assign-task', 'add-thought',
+      'journal', 'export', 'import', 'merge-branches', 'fork-branch', 'diff-branches', 'move-branch', 'archive-branch', 'unarchive-branch', 'delete-branch',
+      'edit-thought', 'delete-thought', 'thought-revisions', 'beliefs', 'suggested-links', 'accept-link', 'reject-link', 'links', 'unlink-thoughts', 'check-integrity', 'query', 'list-analyzers', 'topics', 'sentiment-timeline', 'synthesize', 'accept-insight', 'reject-insight', 'pin-insight', 'edit-insight', ...PROFILE_COMMANDS, ...THOUGHT_TYPE_COMMANDS, ...Object.keys(LIFECYCLE_COMMANDS), ...WORKSPACE_COMMANDS, ...HISTORY_COMMANDS
     ],
     [SessionState.ACTIVE]: [
       'add-thought', 'insights', 'crossrefs', 'hub-thoughts', 'semantic-search',
       'link-thoughts', 'add-snippet', 'snippet-search', 'summarize-branch',
       'doc-thought', 'extract-tasks', 'review-branch', 'visualize', 'ask',
-      'focus', 'list', 'create-branch', 'history', 'summarize-tasks', 'advance-task', 'assign-task',
-      'reset-session', 'clear-cache', 'get-cache-stats'
+      'focus', 'list', 'tree', 'ancestors', 'descendants', 'create-branch', 'history', 'summarize-tasks', 'advance-task', 'assign-task',
+      'reset-session', 'clear-cache', 'get-cache-stats', 'journal', 'replay-journal',
+      'export', 'import', 'merge-branches', 'fork-branch', 'diff-branches', 'move-branch', 'archive-branch', 'unarchive-branch', 'delete-branch',
+      'edit-thought', 'delete-thought', 'thought-revisions', 'beliefs', 'suggested-links', 'accept-link', 'reject-link', 'links', 'unlink-thoughts', 'check-integrity', 'query', 'list-analyzers', 'topics', 'sentiment-timeline', 'synthesize', 'accept-insight', 'reject-insight', 'pin-insight', 'edit-insight', ...PROFILE_COMMANDS, ...THOUGHT_TYPE_COMMANDS, ...Object.keys(LIFECYCLE_COMMANDS), ...WORKSPACE_COMMANDS, ...HISTORY_COMMANDS
     ],
-    [SessionState.RESET]: ['create-branch', 'list'],
+    [SessionState.RESET]: ['create-branch', 'list', 'tree', 'ancestors', 'descendants', 'import', ...PROFILE_COMMANDS, ...THOUGHT_TYPE_COMMANDS, ...WORKSPACE_COMMANDS, ...HISTORY_COMMANDS],
   };
 
   private updateSessionState(commandType: string) {
@@ -82,7 +204,115 @@ class BranchingThoughtServer {
         break;
     }
   }
-  private branchManager = new BranchManager();
+  private workspaceName: string | null = null;
+
+  constructor(
+    private branchManager: BranchManager = new BranchManager(),
+    private journal: EventJournal | null = null,
+    private workspaces: WorkspaceManager | null = null
+  ) {}
+
+  /**
+   * Open the last-used workspace before serving requests.
+   */
+  async init(): Promise<void> {
+    if (!this.workspaces) return;
+    await this.openWorkspace(await this.workspaces.getCurrent());
+  }
+
+  /**
+   * Switch the server to a workspace: its own branch store, task store, embedding cache and journal.
+   * Falls back to rebuilding from the journal when no saved workspace exists.
+   */
+  private async openWorkspace(name: string): Promise<void> {
+    if (!this.workspaces) throw new Error('Workspaces are not configured');
+    const paths = await this.workspaces.open(name);
+    // Let pending saves of the current workspace land before swapping it out
+    await this.branchManager.close();
+    const storage = await this.workspaces.createAdapter(name);
+    this.branchManager = new BranchManager({ storage });
+    this.journal = new EventJournal(paths.journalPath);
+    this.workspaceName = name;
+    this.undoStack.clear();
+    let restored = await this.branchManager.loadWorkspace();
+    if (!restored) {
+      const entries = await this.journal.read();
+      if (entries.length > 0) {
+        const rebuilt = await this.replayEntries(entries);
+        await this.branchManager.replaceWorkspace(rebuilt.toSnapshot());
+        restored = true;
+      }
+    }
+    this.sessionState = restored && this.branchManager.getActiveBranch()
+      ? SessionState.BRANCH_FOCUSED
+      : SessionState.INIT;
+    await this.workspaces.setCurrent(name);
+    console.error(`[WORKSPACE] Opened workspace '${name}' (${storage.backend}) at ${paths.dir}`);
+  }
+
+  /**
+   * Append a mutating command to the journal (no-op when journaling is disabled, e.g. during replay).
+   */
+  private async recordEvent(command: string, payload: Record<string, any>, actor?: string, at: Date = new Date()): Promise<void> {
+    if (!this.journal) return;
+    const entry: JournalEntry = {
+      timestamp: at.toISOString(),
+      actor: actor || DEFAULT_ACTOR,
+      command,
+      payload
+    };
+    try {
+      await this.journal.append(entry);
+    } catch (err) {
+      console.error(`[JOURNAL] Failed to append ${command} to ${this.journal.getPath()}:`, err);
+    }
+  }
+
+  /**
+   * Run a command with the clock pinned to one time, which its journal entry records, so replay
+   * stamps thoughts, revisions and state changes exactly as the live run did. During replay (no
+   * journal) the replayer has already pinned the clock to the entry's time.
+   */
+  private async withCommandClock<T>(run: (at: Date) => Promise<T>): Promise<T> {
+    const at = new Date();
+    if (!this.journal) return run(at);
+    this.branchManager.setClock(() => at);
+    try {
+      return await run(at);
+    } finally {
+      this.branchManager.setClock(null);
+    }
+  }
+
+  /**
+   * Replay journal entries into a fresh, in-memory BranchManager.
+   * Each entry runs through the same command executor with the clock pinned to its original time.
+   */
+  private async replayEntries(entries: JournalEntry[]): Promise<BranchManager> {
+    const manager = new BranchManager();
+    const replayer = new BranchingThoughtServer(manager, null);
+    for (const entry of entries) {
+      manager.setClock(() => new Date(entry.timestamp));
+      try {
+        await replayer._executeAtomicCommand(entry.command, { ...entry.payload, actor: entry.actor });
+      } catch (err) {
+        console.error(`[JOURNAL] Replay of ${entry.command} at ${entry.timestamp} failed:`, err);
+      }
+    }
+    manager.setClock(null);
+    manager.refreshDerived();
+    return manager;
+  }
+
+  /**
+   * Resolve the BranchManager to read from: the live workspace, or a point-in-time replay when asOf is set.
+   */
+  private async managerAsOf(asOf?: string | number): Promise<BranchManager> {
+    if (asOf === undefined || asOf === null || asOf === '') return this.branchManager;
+    if (!this.journal) throw new Error('asOf requires the event journal');
+    const entries = await this.journal.read(parseAsOf(asOf));
+    return this.replayEntries(entries);
+  }
 
   // Made async to allow awaiting handleCommand
   async processThought(input: unknown): Promise<{ content: Array<{ type: string; text: string }>; isError?: boolean }> {
@@ -91,19 +321,28 @@ class BranchingThoughtServer {
       // Handle commands if present
       if (inputData.command) {
         // Await handleCommand since it is now async
-        return await this.handleCommand(inputData.command);
+        const result = await this.handleCommand(inputData.command);
+        await this.branchManager.flush();
+        return result;
       }
       // Handle regular thought input (single or batch)
-      let lastThought;
-      let branch;
-      if (Array.isArray(inputData)) {
-        lastThought = this.branchManager.addThought(inputData);
-        branch = this.branchManager.getBranch(lastThought.branchId)!;
-      } else {
-        const thoughtInput = input as BranchingThoughtInput;
-        lastThought = this.branchManager.addThought(thoughtInput);
-        branch = this.branchManager.getBranch(lastThought.branchId)!;
-      }
+      const thoughtInputs: BranchingThoughtInput[] = Array.isArray(inputData) ? inputData : [input as BranchingThoughtInput];
+      const { lastThought, branch } = await this.withCommandClock(async at => {
+        await this.branchManager.beginChange();
+        let lastThought;
+        try {
+          lastThought = this.branchManager.addThought(thoughtInputs);
+        } catch (error) {
+          // Nothing that is neither undoable nor journaled may stay behind
+          await this.branchManager.abortChange();
+          throw error;
+        }
+        this.branchManager.refreshDerived();
+        this.undoStack.record('add-thought', await this.branchManager.endChange());
+        await this.recordEvent('add-thought', { thoughts: thoughtInputs }, typeof inputData.actor === 'string' ? inputData.actor : undefined, at);
+        return { lastThought, branch: this.branchManager.getBranch(lastThought.branchId)! };
+      });
+      await this.branchManager.flush();
       // Format the response with the branch status
       const formattedStatus = await this.branchManager.formatBranchStatus(branch);
       console.error(formattedStatus); // Display in the console
@@ -156,6 +395,50 @@ class BranchingThoughtServer {
     parentBranchId?: string;
     rule?: AutoExecutionPolicyRule; // for policy management commands
     autoVisualize?: boolean;
+    asOf?: string | number; // point-in-time view for history, visualize and summarize-branch
+    actor?: string; // recorded in the event journal
+    limit?: number;
+    workspace?: string; // for workspace commands
+    switch?: boolean; // create-workspace: open it right away
+    storage?: string; // create-workspace: storage backend
+    to?: string; // migrate-storage: target backend
+    format?: string; // export format
+    outputDir?: string; // export destination
+    inline?: boolean; // export: return file contents instead of writing them
+    filePath?: string; // import source file
+    thoughtType?: string; // add-thought / import: type of the new thoughts
+    sourceBranchId?: string; // merge-branches: branch merged away
+    targetBranchId?: string; // merge-branches: branch that receives the thoughts
+    strategy?: string; // merge-branches: near-duplicate handling
+    threshold?: number; // merge-branches: near-duplicate similarity
+    dryRun?: boolean; // preview without changing anything
+    states?: string | string[]; // list / visualize: branch state filter
+    atThoughtId?: string; // fork-branch: last thought copied into the fork
+    newBranchId?: string; // fork-branch: ID of the new branch
+    leftBranchId?: string; // diff-branches
+    tree?: boolean; // list: render the branch hierarchy
+    rightBranchId?: string; // diff-branches
+    force?: boolean; // add-thought / edit-thought / delete-thought: allow writing to completed or dead-end branches
+    includeArchived?: boolean; // list / semantic-search: also cover archived branches
+    taskAction?: 'close' | 'delete'; // delete-branch / delete-thought: what happens to the tasks
+    confidence?: number; // edit-thought
+    keyPoints?: string[]; // edit-thought
+    colorBy?: 'cluster' | 'belief'; // visualize: what node colors encode
+    repair?: boolean; // check-integrity: fix what it finds
+    profileId?: string; // profile commands; add-thought; list / semantic-search / visualize filter
+    name?: string; // create-profile / update-profile
+    settings?: Record<string, unknown>; // create-profile / update-profile
+    fields?: Record<string, string>; // add-thought / edit-thought: type-specific fields
+    aliases?: string[]; // define-thought-type
+    description?: string; // define-thought-type
+    requiredFields?: string[]; // define-thought-type
+    defaultConfidence?: number; // define-thought-type
+    strictness?: string; // set-thought-type-strictness
+    branchIds?: string[]; // synthesize: branches to compare
+    insightId?: string; // accept-insight / reject-insight / pin-insight / edit-insight
+    pinned?: boolean; // pin-insight: false unpins
+    insightType?: string; // edit-insight: new insight type
+    window?: number; // sentiment-timeline: thoughts per rolling average
   }): Promise<{ content: Array<{ type: string; text: string }> }> {
     console.error(`[CMD] Received command: ${command.type}`);
     try {
@@ -221,8 +504,36 @@ class BranchingThoughtServer {
       };
     }
   }
-  // Extracted atomic command executor (original switch/case logic)
+  // Atomic command executor: runs the command, then journals it if it mutates state
   private async _executeAtomicCommand(type: string, params: any): Promise<{ content: Array<{ type: string; text: string }> }> {
+    return this.withCommandClock(async at => {
+      // Derived state (beliefs, key points, sentiment, insights) catches up with earlier changes first
+      this.branchManager.refreshDerived();
+      // Read-only runs change nothing, so there is nothing to undo or replay
+      const mutating = isMutating(type, params);
+      if (mutating) await this.branchManager.beginChange();
+      let result: { content: Array<{ type: string; text: string }> };
+      try {
+        result = await this._dispatchAtomicCommand(type, params);
+      } catch (error) {
+        // A command that fails part way is rolled back, since it gets no undo entry or journal event
+        if (mutating) await this.branchManager.abortChange();
+        throw error;
+      }
+      if (mutating) {
+        this.branchManager.refreshDerived();
+        this.undoStack.record(type, await this.branchManager.endChange());
+      }
+      if (mutating || HISTORY_COMMANDS.includes(type)) {
+        const { actor, ...payload } = params;
+        await this.recordEvent(type, payload, actor, at);
+      }
+      return result;
+    });
+  }
+
+  // Extracted atomic command dispatcher (original switch/case logic)
+  private async _dispatchAtomicCommand(type: string, params: any): Promise<{ content: Array<{ type: string; text: string }> }> {
     switch (type) {
         case 'create-branch': {
            if (!params.branchId) throw new Error('branchId required for create-branch');
@@ -238,6 +549,31 @@ class BranchingThoughtServer {
            }
            return { content };
          }
+        case 'add-thought': {
+          // Batch/journal form: { thoughts: BranchingThoughtInput[] }; command form: { branchId, content, thoughtType?, profileId? }
+          const input: BranchingThoughtInput | BranchingThoughtInput[] = Array.isArray(params.thoughts)
+            ? params.thoughts
+            : { ...params, type: params.thoughtType };
+          const thought = this.branchManager.addThought(input);
+          const registry = this.branchManager.getThoughtTypes();
+          const definition = registry.types.find(t => t.name === thought.metadata.type);
+          const missing = (definition?.requiredFields || []).filter(f => !thought.metadata.fields?.[f]);
+          const warnings = registry.strictness !== 'warn' ? [] : [
+            ...(!definition ? [`Unknown thought type ${thought.metadata.type}; see list-thought-types`] : []),
+            ...(missing.length ? [`Thought type ${thought.metadata.type} is missing required fields: ${missing.join(', ')}`] : [])
+          ];
+          return {
+            content: [{
+              type: "text",
+              text: JSON.stringify({
+                thoughtId: thought.id,
+                branchId: thought.branchId,
+                type: thought.metadata.type,
+                ...(warnings.length ? { warning: warnings.join('; ') } : {})
+              }, null, 2)
+            }]
+          };
+        }
         case 'insights': {
           const branchId = params.branchId || this.branchManager.getActiveBranch()?.id;
           if (!branchId) {
@@ -255,12 +591,25 @@ class BranchingThoughtServer {
           };
         }
         case 'list': {
-          const branches = this.branchManager.getAllBranches();
+          const states = parseStates(params.states);
           const activeBranchId = this.branchManager.getActiveBranch()?.id;
+          if (params.tree) {
+            const include = (b: ThoughtBranch) => (!states || states.includes(b.state)) &&
+              (!params.profileId || b.thoughts.some(t => t.profileId === params.profileId));
+            const nodes = await this.branchManager.getBranchTree(undefined, states || params.profileId ? include : undefined);
+            return { content: [{ type: "text", text: `Branch Tree:\n${this.branchManager.formatBranchTree(nodes, activeBranchId)}` }] };
+          }
+          const branches = [
+            ...this.branchManager.getAllBranches(),
+            ...(params.includeArchived ? this.branchManager.getArchivedBranches() : [])
+          ]
+            .filter(b => !states || states.includes(b.state))
+            .filter(b => !params.profileId || b.thoughts.some(t => t.profileId === params.profileId));
           const output = branches.map(b => {
             const isActive = b.id === activeBranchId;
             const prefix = isActive ? chalk.green('→') : ' ';
-            return `${prefix} ${b.id} [${b.state}] - ${b.thoughts[b.thoughts.length - 1]?.content.slice(0, 50)}...`;
+            const archived = b.archived ? chalk.gray(' [archived]') : '';
+            return `${prefix} ${b.id} [${b.state}]${archived} - ${b.thoughts[b.thoughts.length - 1]?.content.slice(0, 50)}...`;
           }).join('\n');
           
           return {
@@ -294,7 +643,8 @@ class BranchingThoughtServer {
           if (!branchId) {
             throw new Error('No active branch and no branchId provided');
           }
-          const history = await this.branchManager.getBranchHistory(branchId);
+          const manager = await this.managerAsOf(params.asOf);
+          const history = await manager.getBranchHistory(branchId);
           return {
             content: [{
               type: "text",
@@ -346,7 +696,7 @@ class BranchingThoughtServer {
           const query = params.query;
           const topN = typeof params.topN === 'number' ? params.topN : 5;
           // Perform semantic search
-          const results = await this.branchManager.semanticSearch(query, topN);
+          const results = await this.branchManager.semanticSearch(query, topN, params.includeArchived === true, params.profileId);
           return {
             content: [{
               type: "text",
@@ -374,6 +724,192 @@ class BranchingThoughtServer {
             }] 
           };
         }
+        case 'create-profile': {
+          if (!params.name) throw new Error('create-profile requires a name');
+          const profile = this.branchManager.createProfile(params.name, params.settings, params.profileId);
+          return {
+            content: [{ type: "text", text: JSON.stringify({ status: 'created', profile }, null, 2) }]
+          };
+        }
+        case 'list-profiles': {
+          const thoughts = this.branchManager.getAllBranches().flatMap(b => b.thoughts);
+          const profiles = this.branchManager.getProfiles().map(profile => ({
+            ...profile,
+            thoughts: thoughts.filter(t => t.profileId === profile.id).length
+          }));
+          return {
+            content: [{ type: "text", text: JSON.stringify({ profiles }, null, 2) }]
+          };
+        }
+        case 'update-profile': {
+          if (!params.profileId) throw new Error('profileId required for update-profile');
+          const profile = await this.branchManager.updateProfile(params.profileId, { name: params.name, settings: params.settings });
+          return {
+            content: [{ type: "text", text: JSON.stringify({ status: 'updated', profile }, null, 2) }]
+          };
+        }
+        case 'delete-profile': {
+          if (!params.profileId) throw new Error('profileId required for delete-profile');
+          const detached = this.branchManager.deleteProfile(params.profileId);
+          return {
+            content: [{
+              type: "text",
+              text: JSON.stringify({ status: 'deleted', profileId: params.profileId, detachedThoughts: detached }, null, 2)
+            }]
+          };
+        }
+        case 'topics': {
+          const report = this.branchManager.getTopics(params.branchId, params.topN);
+          return {
+            content: [{ type: "text", text: JSON.stringify(report, null, 2) }]
+          };
+        }
+        case 'sentiment-timeline': {
+          const branchId = params.branchId || this.branchManager.getActiveBranch()?.id;
+          if (!branchId) throw new Error('No active branch and no branchId provided');
+          const timeline = this.branchManager.getSentimentTimeline(branchId, params.window);
+          return {
+            content: [{ type: "text", text: JSON.stringify(timeline, null, 2) }]
+          };
+        }
+        case 'synthesize': {
+          if (params.branchIds !== undefined && (!Array.isArray(params.branchIds) || params.branchIds.some((id: unknown) => typeof id !== 'string'))) {
+            throw new Error('synthesize branchIds must be an array of branch IDs');
+          }
+          const report = await this.branchManager.synthesize(params.branchIds);
+          return {
+            content: [{ type: "text", text: JSON.stringify(report, null, 2) }]
+          };
+        }
+        case 'accept-insight':
+        case 'reject-insight': {
+          if (!params.insightId) throw new Error(`insightId required for ${type}`);
+          const actor = params.actor || DEFAULT_ACTOR;
+          const insight = type === 'accept-insight'
+            ? this.branchManager.acceptInsight(params.insightId, actor, params.reason)
+            : this.branchManager.rejectInsight(params.insightId, actor, params.reason);
+          return {
+            content: [{ type: "text", text: JSON.stringify({ status: insight.status, insight }, null, 2) }]
+          };
+        }
+        case 'pin-insight': {
+          if (!params.insightId) throw new Error('insightId required for pin-insight');
+          const insight = this.branchManager.pinInsight(params.insightId, params.pinned !== false, params.actor || DEFAULT_ACTOR, params.reason);
+          return {
+            content: [{ type: "text", text: JSON.stringify({ status: insight.pinned ? 'pinned' : 'unpinned', insight }, null, 2) }]
+          };
+        }
+        case 'edit-insight': {
+          if (!params.insightId) throw new Error('insightId required for edit-insight');
+          const insight = this.branchManager.editInsight(
+            params.insightId,
+            { content: params.content, type: params.insightType },
+            params.actor || DEFAULT_ACTOR,
+            params.reason
+          );
+          return {
+            content: [{ type: "text", text: JSON.stringify({ status: 'edited', insight }, null, 2) }]
+          };
+        }
+        case 'list-analyzers': {
+          return {
+            content: [{ type: "text", text: JSON.stringify({ analyzers: this.branchManager.getAnalyzers() }, null, 2) }]
+          };
+        }
+        case 'list-thought-types': {
+          return {
+            content: [{ type: "text", text: JSON.stringify(this.branchManager.getThoughtTypes(), null, 2) }]
+          };
+        }
+        case 'define-thought-type': {
+          if (!params.name) throw new Error('define-thought-type requires a name');
+          const definition = this.branchManager.defineThoughtType({
+            name: params.name,
+            aliases: params.aliases,
+            description: params.description,
+            requiredFields: params.requiredFields,
+            defaultConfidence: params.defaultConfidence
+          });
+          return {
+            content: [{ type: "text", text: JSON.stringify({ status: 'defined', type: definition }, null, 2) }]
+          };
+        }
+        case 'set-thought-type-strictness': {
+          if (!params.strictness) throw new Error('set-thought-type-strictness requires strictness');
+          this.branchManager.setThoughtTypeStrictness(params.strictness as TypeStrictness);
+          return {
+            content: [{ type: "text", text: JSON.stringify({ status: 'updated', strictness: params.strictness }, null, 2) }]
+          };
+        }
+        case 'query': {
+          if (typeof params.query !== 'string') throw new Error('query requires a query string');
+          const result = await this.branchManager.queryThoughts(params.query);
+          return {
+            content: [{ type: "text", text: JSON.stringify(result, null, 2) }]
+          };
+        }
+        case 'links': {
+          if (!params.thoughtId) throw new Error('thoughtId required for links');
+          const links = this.branchManager.getThoughtLinks(params.thoughtId);
+          return {
+            content: [{ type: "text", text: JSON.stringify(links, null, 2) }]
+          };
+        }
+        case 'unlink-thoughts': {
+          if (!params.fromThoughtId || !params.toThoughtId) throw new Error('unlink-thoughts requires fromThoughtId and toThoughtId');
+          const removed = this.branchManager.unlinkThoughts(
+            params.fromThoughtId,
+            params.toThoughtId,
+            params.linkType as ThoughtLinkType | undefined
+          );
+          return {
+            content: [{
+              type: "text",
+              text: JSON.stringify({ status: 'unlinked', fromThoughtId: params.fromThoughtId, removed }, null, 2)
+            }]
+          };
+        }
+        case 'check-integrity': {
+          const report = await this.branchManager.checkIntegrity({ repair: params.repair === true, actor: params.actor || DEFAULT_ACTOR });
+          return {
+            content: [{ type: "text", text: JSON.stringify(report, null, 2) }]
+          };
+        }
+        case 'suggested-links': {
+          const suggestions = await this.branchManager.suggestLinks(params.branchId);
+          return {
+            content: [{
+              type: "text",
+              text: JSON.stringify({ branchId: params.branchId, suggestions }, null, 2)
+            }]
+          };
+        }
+        case 'accept-link': {
+          if (!params.fromThoughtId || !params.toThoughtId) throw new Error('accept-link requires fromThoughtId and toThoughtId');
+          if (params.linkType !== undefined && params.linkType !== 'supports' && params.linkType !== 'contradicts') {
+            throw new Error(`accept-link linkType must be supports or contradicts, got ${params.linkType}`);
+          }
+          const link = await this.branchManager.acceptLink(params.fromThoughtId, params.toThoughtId, params.linkType);
+          return {
+            content: [{
+              type: "text",
+              text: JSON.stringify({
+                status: 'linked',
+                fromThoughtId: params.fromThoughtId,
+                toThoughtId: link.toThoughtId,
+                linkType: link.type,
+                reason: link.reason
+              }, null, 2)
+            }]
+          };
+        }
+        case 'reject-link': {
+          if (!params.fromThoughtId || !params.toThoughtId) throw new Error('reject-link requires fromThoughtId and toThoughtId');
+          const rejected = this.branchManager.rejectLink(params.fromThoughtId, params.toThoughtId, params.actor || DEFAULT_ACTOR, params.reason);
+          return {
+            content: [{ type: "text", text: JSON.stringify({ status: 'rejected', ...rejected }, null, 2) }]
+          };
+        }
         case 'add-snippet': {
           if (!('content' in params) || typeof params.content !== 'string' || !('tags' in params) || !Array.isArray(params.tags)) throw new Error('add-snippet requires content (string) and tags (array)');
           const snippet = this.branchManager.addSnippet(params.content, params.tags, typeof params.author === 'string' ? params.author : undefined);
@@ -400,7 +936,7 @@ class BranchingThoughtServer {
           return {
             content: [{
               type: "text",
-              text: await this.branchManager.summarizeBranch(branchId)
+              text: await (await this.managerAsOf(params.asOf)).summarizeBranch(branchId)
             }]
           };
         }
@@ -448,6 +984,42 @@ class BranchingThoughtServer {
             }]
           };
         }
+        case 'advance-task': {
+          if (!params.taskId || !params.status) throw new Error('advance-task requires taskId and status');
+          if (!['open', 'in_progress', 'closed'].includes(params.status)) {
+            throw new Error(`Invalid status: ${params.status} (expected open, in_progress or closed)`);
+          }
+          const updated = await this.branchManager.advanceTask(params.taskId, params.status);
+          if (!updated) throw new Error(`Task not found: ${params.taskId}`);
+          return { content: [{ type: "text", text: `Task ${params.taskId} moved to ${params.status}` }] };
+        }
+        case 'assign-task': {
+          if (!params.taskId || !params.assignee) throw new Error('assign-task requires taskId and assignee');
+          await this.branchManager.assignTask(params.taskId, params.assignee);
+          return { content: [{ type: "text", text: `Task ${params.taskId} assigned to ${params.assignee}` }] };
+        }
+        case 'undo':
+        case 'redo': {
+          if (!(type === 'undo' ? this.undoStack.canUndo() : this.undoStack.canRedo())) {
+            throw new Error(`Nothing to ${type} in this session`);
+          }
+          await this.branchManager.beginChange();
+          const counterpart = (state: UndoState) => this.branchManager.undoCounterpart(state);
+          const entry = type === 'undo' ? this.undoStack.undo(counterpart) : this.undoStack.redo(counterpart);
+          await this.branchManager.restoreState(entry.state);
+          return {
+            content: [{
+              type: "text",
+              text: JSON.stringify({
+                status: type === 'undo' ? 'undone' : 'redone',
+                command: entry.command,
+                commandAt: entry.timestamp,
+                activeBranch: this.branchManager.getActiveBranch()?.id ?? null,
+                ...this.undoStack.describe()
+              }, null, 2)
+            }]
+          };
+        }
         case 'summarize-tasks': {
           const branchId = params.branchId || this.branchManager.getActiveBranch()?.id;
           const summary = await this.branchManager.summarizeTasks(branchId);
@@ -471,8 +1043,9 @@ class BranchingThoughtServer {
         }
         case 'visualize': {
           // Pass full visualization options
-          const options = params as VisualizationOptions;
-          const data = this.branchManager.visualizeBranch(options);
+          const options = { ...params, states: parseStates(params.states) } as VisualizationOptions;
+          const manager = await this.managerAsOf(params.asOf);
+          const data = manager.visualizeBranch(options);
           return {
             content: [{ type: "text", text: JSON.stringify(data, null, 2) }]
           };
@@ -500,6 +1073,413 @@ class BranchingThoughtServer {
           const stats = this.branchManager.getCacheStats();
           return { content: [{ type: "text", text: JSON.stringify(stats, null, 2) }] };
         }
+        case 'create-workspace': {
+          if (!this.workspaces) throw new Error('Workspaces are not configured');
+          if (!params.workspace) throw new Error('create-workspace requires a workspace name');
+          if (params.storage !== undefined && !STORAGE_BACKENDS.includes(params.storage)) {
+            throw new Error(`Unknown storage backend: ${params.storage} (expected ${STORAGE_BACKENDS.join(' or ')})`);
+          }
+          const paths = await this.workspaces.create(params.workspace, params.storage as StorageBackend | undefined);
+          if (params.switch) await this.openWorkspace(params.workspace);
+          return {
+            content: [{
+              type: "text",
+              text: JSON.stringify({
+                status: 'created',
+                workspace: paths.name,
+                storage: await this.workspaces.getBackend(paths.name),
+                dir: paths.dir,
+                current: this.workspaceName
+              }, null, 2)
+            }]
+          };
+        }
+        case 'switch-workspace': {
+          if (!this.workspaces) throw new Error('Workspaces are not configured');
+          if (!params.workspace) throw new Error('switch-workspace requires a workspace name');
+          if (!(await this.workspaces.exists(params.workspace))) {
+            throw new Error(`Workspace not found: ${params.workspace}. Use create-workspace first.`);
+          }
+          await this.openWorkspace(params.workspace);
+          return {
+            content: [{
+              type: "text",
+              text: JSON.stringify({
+                status: 'switched',
+                workspace: params.workspace,
+                branches: this.branchManager.getAllBranches().length,
+                activeBranch: this.branchManager.getActiveBranch()?.id,
+                sessionState: this.sessionState
+              }, null, 2)
+            }]
+          };
+        }
+        case 'list-workspaces': {
+          if (!this.workspaces) throw new Error('Workspaces are not configured');
+          return {
+            content: [{
+              type: "text",
+              text: JSON.stringify({
+                root: this.workspaces.getRoot(),
+                current: this.workspaceName,
+                workspaces: await this.workspaces.list()
+              }, null, 2)
+            }]
+          };
+        }
+        case 'migrate-storage': {
+          if (!this.workspaces) throw new Error('Workspaces are not configured');
+          const name = params.workspace || this.workspaceName;
+          if (!name) throw new Error('migrate-storage requires a workspace');
+          if (!STORAGE_BACKENDS.includes(params.to)) {
+            throw new Error(`migrate-storage requires 'to' (${STORAGE_BACKENDS.join(' or ')})`);
+          }
+          if (!(await this.workspaces.exists(name))) throw new Error(`Workspace not found: ${name}`);
+          const from = await this.workspaces.getBackend(name);
+          const to = params.to as StorageBackend;
+          if (from === to) throw new Error(`Workspace '${name}' already uses ${to} storage`);
+          const isCurrent = name === this.workspaceName;
+          if (isCurrent) await this.branchManager.flush();
+          const source = await this.workspaces.createAdapter(name, from);
+          const target = await this.workspaces.createAdapter(name, to);
+          let copied;
+          try {
+            copied = await migrateStorage(source, target);
+          } finally {
+            await source.close();
+            await target.close();
+          }
+          await this.workspaces.setBackend(name, to);
+          if (isCurrent) await this.openWorkspace(name);
+          return {
+            content: [{
+              type: "text",
+              text: JSON.stringify({ status: 'migrated', workspace: name, from, to, location: target.describe(), copied }, null, 2)
+            }]
+          };
+        }
+        case 'export': {
+          const format = (params.format || 'markdown') as ExportFormat;
+          if (!EXPORT_FORMATS.includes(format)) {
+            throw new Error(`Unknown export format: ${format} (expected ${EXPORT_FORMATS.join(', ')})`);
+          }
+          const allBranches = this.branchManager.getAllBranches();
+          let branches = allBranches;
+          if (params.branchId) {
+            const branch = this.branchManager.getBranch(params.branchId);
+            if (!branch) throw new Error(`Branch ${params.branchId} not found`);
+            branches = [branch];
+          }
+          const files = renderExport({
+            branches,
+            allBranches,
+            tasks: await this.branchManager.getTasks(),
+            snippets: this.branchManager.getSnippets(),
+            profiles: this.branchManager.getProfiles()
+          }, format);
+          if (params.inline) {
+            return { content: [{ type: "text", text: JSON.stringify({ format, files }, null, 2) }] };
+          }
+          let outputDir = params.outputDir;
+          if (!outputDir) {
+            if (!this.workspaces || !this.workspaceName) throw new Error('export requires outputDir (or inline: true) outside a workspace');
+            const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+            outputDir = path.join(this.workspaces.paths(this.workspaceName).dir, 'exports', `${format}-${stamp}`);
+          }
+          const written = await writeExportFiles(outputDir, files);
+          return {
+            content: [{
+              type: "text",
+              text: JSON.stringify({ status: 'exported', format, outputDir, branches: branches.map(b => b.id), files: written }, null, 2)
+            }]
+          };
+        }
+        case 'import': {
+          let text: string | undefined = params.content;
+          if (params.filePath) {
+            text = await fs.readFile(params.filePath, 'utf8');
+          }
+          if (typeof text !== 'string' || !text.trim()) throw new Error('import requires content or filePath');
+          const format = (params.format || detectImportFormat(text, params.filePath)) as ImportFormat;
+          if (!IMPORT_FORMATS.includes(format)) {
+            throw new Error(`Unknown import format: ${format} (expected ${IMPORT_FORMATS.join(', ')})`);
+          }
+          // Journal the resolved content rather than the path, so replay never depends on the file
+          params.content = text;
+          params.format = format;
+          delete params.filePath;
+          const report = format === 'json'
+            ? await this.branchManager.importBundle(parseBundle(text), { parentBranchId: params.parentBranchId })
+            : this.branchManager.importOutline(parseMarkdownOutline(text), {
+                branchId: params.branchId,
+                parentBranchId: params.parentBranchId,
+                thoughtType: params.thoughtType
+              });
+          // Like opening a workspace: imported content can be worked on without a separate focus
+          if ((this.sessionState === SessionState.INIT || this.sessionState === SessionState.RESET) && this.branchManager.getActiveBranch()) {
+            this.sessionState = SessionState.BRANCH_FOCUSED;
+          }
+          return {
+            content: [{
+              type: "text",
+              text: JSON.stringify({ status: 'imported', ...report, activeBranch: this.branchManager.getActiveBranch()?.id }, null, 2)
+            }]
+          };
+        }
+        case 'suspend-branch':
+        case 'resume-branch':
+        case 'complete-branch':
+        case 'abandon-branch': {
+          const branchId = params.branchId || this.branchManager.getActiveBranch()?.id;
+          if (!branchId) throw new Error(`branchId required for ${type}`);
+          if (typeof params.reason !== 'string' || !params.reason.trim()) throw new Error(`reason required for ${type}`);
+          const change = this.branchManager.transitionBranch(branchId, LIFECYCLE_COMMANDS[type], params.reason, params.actor || DEFAULT_ACTOR);
+          return {
+            content: [{
+              type: "text",
+              text: JSON.stringify({ branchId, state: change.to, previousState: change.from, reason: change.reason, actor: change.actor, timestamp: change.timestamp }, null, 2)
+            }]
+          };
+        }
+        case 'fork-branch': {
+          if (!params.sourceBranchId || !params.atThoughtId || !params.newBranchId) {
+            throw new Error('sourceBranchId, atThoughtId and newBranchId required for fork-branch');
+          }
+          const { branch, copied } = this.branchManager.forkBranch(params.sourceBranchId, params.atThoughtId, params.newBranchId);
+          return {
+            content: [{
+              type: "text",
+              text: JSON.stringify({
+                status: 'forked',
+                branchId: branch.id,
+                parentBranchId: branch.parentBranchId,
+                forkPoint: params.atThoughtId,
+                copiedThoughts: copied
+              }, null, 2)
+            }]
+          };
+        }
+        case 'tree': {
+          const nodes = await this.branchManager.getBranchTree(params.branchId);
+          return {
+            content: [
+              { type: "text", text: JSON.stringify(nodes, null, 2) },
+              { type: "text", text: this.branchManager.formatBranchTree(nodes, this.branchManager.getActiveBranch()?.id) }
+            ]
+          };
+        }
+        case 'ancestors': {
+          const branchId = params.branchId || this.branchManager.getActiveBranch()?.id;
+          if (!branchId) throw new Error('branchId required for ancestors');
+          const ancestors = this.branchManager.getAncestors(branchId);
+          return {
+            content: [{
+              type: "text",
+              text: JSON.stringify({
+                branchId,
+                ancestors: ancestors.map(b => ({ branchId: b.id, state: b.state, thoughts: b.thoughts.length })),
+                path: [...ancestors.map(b => b.id).reverse(), branchId].join(' / ')
+              }, null, 2)
+            }]
+          };
+        }
+        case 'descendants': {
+          const branchId = params.branchId || this.branchManager.getActiveBranch()?.id;
+          if (!branchId) throw new Error('branchId required for descendants');
+          const descendants = this.branchManager.getDescendants(branchId);
+          const [node] = await this.branchManager.getBranchTree(branchId);
+          return {
+            content: [{
+              type: "text",
+              text: JSON.stringify({
+                branchId,
+                descendants: descendants.map(d => ({ branchId: d.branch.id, parentBranchId: d.branch.parentBranchId, depth: d.depth, state: d.branch.state, thoughts: d.branch.thoughts.length })),
+                rollup: node.rollup
+              }, null, 2)
+            }]
+          };
+        }
+        case 'move-branch': {
+          if (!params.branchId) throw new Error('branchId required for move-branch');
+          const branch = this.branchManager.setParentBranch(params.branchId, params.parentBranchId || undefined);
+          return {
+            content: [{
+              type: "text",
+              text: branch.parentBranchId
+                ? `Moved branch '${branch.id}' under '${branch.parentBranchId}'.`
+                : `Branch '${branch.id}' is now a root branch.`
+            }]
+          };
+        }
+        case 'archive-branch': {
+          const branchId = params.branchId || this.branchManager.getActiveBranch()?.id;
+          if (!branchId) throw new Error('branchId required for archive-branch');
+          const branch = this.branchManager.archiveBranch(branchId, params.actor || DEFAULT_ACTOR, params.reason);
+          return {
+            content: [{
+              type: "text",
+              text: JSON.stringify({
+                status: 'archived',
+                branchId,
+                archived: branch.archived,
+                activeBranch: this.branchManager.getActiveBranch()?.id ?? null
+              }, null, 2)
+            }]
+          };
+        }
+        case 'unarchive-branch': {
+          if (!params.branchId) throw new Error('branchId required for unarchive-branch');
+          const branch = this.branchManager.unarchiveBranch(params.branchId);
+          return {
+            content: [{
+              type: "text",
+              text: `Branch '${branch.id}' is back in the working set (${branch.thoughts.length} thoughts).`
+            }]
+          };
+        }
+        case 'delete-branch': {
+          if (!params.branchId) throw new Error('branchId required for delete-branch');
+          const report = await this.branchManager.deleteBranch(params.branchId, {
+            dryRun: params.dryRun === true,
+            tasks: params.taskAction,
+            actor: params.actor || DEFAULT_ACTOR
+          });
+          return {
+            content: [{
+              type: "text",
+              text: JSON.stringify(report, null, 2)
+            }]
+          };
+        }
+        case 'edit-thought': {
+          if (!params.thoughtId) throw new Error('thoughtId required for edit-thought');
+          const { thought, revision, tasks } = await this.branchManager.editThought(
+            params.thoughtId,
+            { content: params.content, type: params.thoughtType, confidence: params.confidence, keyPoints: params.keyPoints, fields: params.fields },
+            { author: params.actor || DEFAULT_ACTOR, reason: params.reason, force: params.force === true }
+          );
+          return {
+            content: [{
+              type: "text",
+              text: JSON.stringify({
+                status: revision ? 'edited' : 'unchanged',
+                thoughtId: thought.id,
+                branchId: thought.branchId,
+                revision: revision?.revision ?? thought.revisions?.length ?? 0,
+                score: thought.score,
+                crossRefs: thought.crossRefs || [],
+                tasks: tasks.map(t => ({ id: t.id, status: t.status, content: t.content }))
+              }, null, 2)
+            }]
+          };
+        }
+        case 'delete-thought': {
+          if (!params.thoughtId) throw new Error('thoughtId required for delete-thought');
+          const report = await this.branchManager.deleteThought(params.thoughtId, {
+            dryRun: params.dryRun === true,
+            tasks: params.taskAction,
+            actor: params.actor || DEFAULT_ACTOR,
+            force: params.force === true
+          });
+          return {
+            content: [{
+              type: "text",
+              text: JSON.stringify(report, null, 2)
+            }]
+          };
+        }
+        case 'thought-revisions': {
+          if (!params.thoughtId) throw new Error('thoughtId required for thought-revisions');
+          const thought = this.branchManager.findThoughtById(params.thoughtId);
+          if (!thought) throw new Error(`Thought ${params.thoughtId} not found`);
+          return {
+            content: [{
+              type: "text",
+              text: JSON.stringify({
+                thoughtId: thought.id,
+                branchId: thought.branchId,
+                created: thought.timestamp,
+                current: { content: thought.content, metadata: thought.metadata },
+                revisions: thought.revisions || []
+              }, null, 2)
+            }]
+          };
+        }
+        case 'beliefs': {
+          const report = this.branchManager.getBeliefs(params.branchId);
+          return {
+            content: [{
+              type: "text",
+              text: JSON.stringify({ branchId: params.branchId, ...report }, null, 2)
+            }]
+          };
+        }
+        case 'diff-branches': {
+          if (!params.leftBranchId || !params.rightBranchId) {
+            throw new Error('leftBranchId and rightBranchId required for diff-branches');
+          }
+          const diff = await this.branchManager.diffBranches(
+            params.leftBranchId,
+            params.rightBranchId,
+            typeof params.threshold === 'number' ? params.threshold : undefined
+          );
+          return {
+            content: [
+              { type: "text", text: JSON.stringify(diff, null, 2) },
+              { type: "text", text: this.branchManager.formatBranchDiff(diff) }
+            ]
+          };
+        }
+        case 'merge-branches': {
+          if (!params.sourceBranchId || !params.targetBranchId) {
+            throw new Error('sourceBranchId and targetBranchId required for merge-branches');
+          }
+          const strategy = (params.strategy || 'keep') as MergeStrategy;
+          if (!MERGE_STRATEGIES.includes(strategy)) {
+            throw new Error(`Unknown merge strategy: ${strategy} (expected ${MERGE_STRATEGIES.join(', ')})`);
+          }
+          const report = await this.branchManager.mergeBranches(params.sourceBranchId, params.targetBranchId, {
+            strategy,
+            threshold: typeof params.threshold === 'number' ? params.threshold : undefined,
+            dryRun: params.dryRun === true
+          });
+          return {
+            content: [{
+              type: "text",
+              text: JSON.stringify({ status: report.dryRun ? 'preview' : 'merged', ...report, activeBranch: this.branchManager.getActiveBranch()?.id }, null, 2)
+            }]
+          };
+        }
+        case 'journal': {
+          if (!this.journal) throw new Error('Event journal is disabled');
+          const entries = await this.journal.read(params.asOf !== undefined ? parseAsOf(params.asOf) : undefined);
+          const limit = typeof params.limit === 'number' ? params.limit : 50;
+          return {
+            content: [{
+              type: "text",
+              text: JSON.stringify({ total: entries.length, entries: entries.slice(-limit) }, null, 2)
+            }]
+          };
+        }
+        case 'replay-journal': {
+          if (!this.journal) throw new Error('Event journal is disabled');
+          const entries = await this.journal.read();
+          if (entries.length === 0) throw new Error('Journal is empty; nothing to replay');
+          const rebuilt = await this.replayEntries(entries);
+          await this.branchManager.replaceWorkspace(rebuilt.toSnapshot());
+          this.undoStack.clear();
+          return {
+            content: [{
+              type: "text",
+              text: JSON.stringify({
+                status: 'rebuilt',
+                entriesReplayed: entries.length,
+                branches: this.branchManager.getAllBranches().length,
+                activeBranch: this.branchManager.getActiveBranch()?.id
+              }, null, 2)
+            }]
+          };
+        }
       }
       // Default return for unknown command types
       return {
@@ -523,28 +1503,107 @@ const BRANCHING_THOUGHT_TOOL: Tool = {
 **Supported Commands:**
 - create-branch: { type: 'create-branch', branchId }
 - focus: { type: 'focus', branchId }
-- add-thought: { type: 'add-thought', branchId, content }
-- semantic-search: { type: 'semantic-search', query, topN? }
+- add-thought: { type: 'add-thought', branchId, content, thoughtType?, fields?, profileId?, force? }
+- semantic-search: { type: 'semantic-search', query, topN?, includeArchived?, profileId? }
 - extract-tasks: { type: 'extract-tasks', branchId? }
-- visualize: { type: 'visualize', branchId?, options? }
+- visualize: { type: 'visualize', branchId?, options?, asOf?, states?, profileId?, colorBy?: 'cluster' | 'belief' }
 - list-branches: { type: 'list-branches' }
-- history: { type: 'history', branchId }
+- list: { type: 'list', states?, tree?, includeArchived?, profileId? }
+- tree: { type: 'tree', branchId? }
+- ancestors: { type: 'ancestors', branchId? }
+- descendants: { type: 'descendants', branchId? }
+- move-branch: { type: 'move-branch', branchId, parentBranchId? }
+- archive-branch: { type: 'archive-branch', branchId?, reason? }
+- unarchive-branch: { type: 'unarchive-branch', branchId }
+- delete-branch: { type: 'delete-branch', branchId, taskAction?: 'close' | 'delete', dryRun? }
+- edit-thought: { type: 'edit-thought', thoughtId, content?, thoughtType?, fields?, confidence?, keyPoints?, reason?, force? }
+- delete-thought: { type: 'delete-thought', thoughtId, taskAction?: 'close' | 'delete', dryRun?, force? }
+- thought-revisions: { type: 'thought-revisions', thoughtId }
+- beliefs: { type: 'beliefs', branchId? }
+- history: { type: 'history', branchId, asOf? }
 - insights: { type: 'insights', branchId }
 - crossrefs: { type: 'crossrefs', branchId }
 - hub-thoughts: { type: 'hub-thoughts', branchId }
 - link-thoughts: { type: 'link-thoughts', fromThoughtId, toThoughtId, linkType, reason? }
+- create-profile: { type: 'create-profile', name, profileId?, settings? }
+- list-profiles: { type: 'list-profiles' }
+- update-profile: { type: 'update-profile', profileId, name?, settings? }
+- delete-profile: { type: 'delete-profile', profileId }
+- list-analyzers: { type: 'list-analyzers' }
+- topics: { type: 'topics', branchId?, topN? }
+- sentiment-timeline: { type: 'sentiment-timeline', branchId?, window? }
+- synthesize: { type: 'synthesize', branchIds? }
+- accept-insight: { type: 'accept-insight', insightId, reason? }
+- reject-insight: { type: 'reject-insight', insightId, reason? }
+- pin-insight: { type: 'pin-insight', insightId, pinned? }
+- edit-insight: { type: 'edit-insight', insightId, content?, insightType?, reason? }
+- list-thought-types: { type: 'list-thought-types' }
+- define-thought-type: { type: 'define-thought-type', name, aliases?, description?, requiredFields?, defaultConfidence? }
+- set-thought-type-strictness: { type: 'set-thought-type-strictness', strictness: 'strict' | 'warn' | 'off' }
+- query: { type: 'query', query }
+- links: { type: 'links', thoughtId }
+- unlink-thoughts: { type: 'unlink-thoughts', fromThoughtId, toThoughtId, linkType? }
+- check-integrity: { type: 'check-integrity', repair? }
+- suggested-links: { type: 'suggested-links', branchId? }
+- accept-link: { type: 'accept-link', fromThoughtId, toThoughtId, linkType?: 'supports' | 'contradicts' }
+- reject-link: { type: 'reject-link', fromThoughtId, toThoughtId, reason? }
 - add-snippet: { type: 'add-snippet', content, tags, author? }
 - snippet-search: { type: 'snippet-search', query, topN? }
-- summarize-branch: { type: 'summarize-branch', branchId? }
+- summarize-branch: { type: 'summarize-branch', branchId?, asOf? }
 - doc-thought: { type: 'doc-thought', thoughtId }
 - review-branch: { type: 'review-branch', branchId? }
 - ask: { type: 'ask', question }
 - summarize-tasks: { type: 'summarize-tasks', branchId? }
 - advance-task: { type: 'advance-task', taskId, status }
 - assign-task: { type: 'assign-task', taskId, assignee }
+- undo: { type: 'undo' }
+- redo: { type: 'redo' }
 - reset-session: { type: 'reset-session' }
 - clear-cache: { type: 'clear-cache' }
 - get-cache-stats: { type: 'get-cache-stats' }
+- journal: { type: 'journal', asOf?, limit? }
+- replay-journal: { type: 'replay-journal' }
+- create-workspace: { type: 'create-workspace', workspace, switch?, storage? }
+- switch-workspace: { type: 'switch-workspace', workspace }
+- list-workspaces: { type: 'list-workspaces' }
+- migrate-storage: { type: 'migrate-storage', to: 'json' | 'sqlite', workspace? }
+- export: { type: 'export', branchId?, format?: 'markdown' | 'obsidian' | 'json', outputDir?, inline? }
+- import: { type: 'import', content? | filePath?, format?: 'markdown' | 'json', branchId?, parentBranchId?, thoughtType? }
+- suspend-branch: { type: 'suspend-branch', branchId?, reason }
+- resume-branch: { type: 'resume-branch', branchId?, reason }
+- complete-branch: { type: 'complete-branch', branchId?, reason }
+- abandon-branch: { type: 'abandon-branch', branchId?, reason }
+- fork-branch: { type: 'fork-branch', sourceBranchId, atThoughtId, newBranchId }
+- diff-branches: { type: 'diff-branches', leftBranchId, rightBranchId, threshold? }
+- merge-branches: { type: 'merge-branches', sourceBranchId, targetBranchId, strategy?: 'keep' | 'merge' | 'drop', threshold?, dryRun? }
+
+**Branch Lifecycle:** Branches are \`active\`, \`suspended\`, \`completed\` or \`dead_end\`. suspend/complete/abandon move an active or suspended branch; resume brings any other state back to active. Each change needs a \`reason\` and is recorded in the branch's \`stateHistory\` with actor and time. Completed and dead-end branches refuse new thoughts unless \`force: true\`. Filter \`list\` and \`visualize\` with \`states\` (e.g. \`['active', 'suspended']\`).
+
+**Archive and Delete:** archive-branch moves a branch out of the working set: it no longer appears in views, analysis or default search, but \`list\` and \`semantic-search\` with \`includeArchived: true\` still cover it, and unarchive-branch brings it back. delete-branch removes a branch for good along with its embeddings and every link, cross-reference and insight entry pointing into it; its tasks are closed (or deleted with \`taskAction: 'delete'\`) and its children move up to its parent. Run it with \`dryRun: true\` first to see everything it would touch.
+
+**Beliefs:** Links form an argument network. Each thought's \`belief\` starts from its own confidence; incoming \`supports\` links raise it and incoming \`contradicts\` links lower it, weighted by the linking thought's belief. Beliefs are recomputed after every change (cycles are settled iteratively) and stored on each thought; beliefs reports them per thought, and visualize with \`colorBy: 'belief'\` colors thought nodes from red (disbelieved) to green (believed).
+
+**Profiles:** Thoughts can belong to a profile (\`profileId\` on add-thought). A profile's \`settings\` drive how its thoughts behave: \`defaultThoughtType\` and \`defaultConfidence\` fill in what add-thought leaves out, \`allowedThoughtTypes\` restricts add-thought and edit-thought, \`crossRefThreshold\` sets the similarity needed for cross-refs, \`scoringWeights\` overrides the score weights (${Object.keys(DEFAULT_SCORING_WEIGHTS).join(', ')}) and \`analyzers\` switches insight analyzers on or off (e.g. \`{ "sentiment": false }\`). update-profile merges settings (null removes one); delete-profile detaches its thoughts. list, semantic-search and visualize take \`profileId\` to show only that profile's thoughts.
+
+**Insights:** Branch insights come from insight analyzers (list-analyzers), each declaring the thought fields it reads. An analyzer reruns only when those inputs change, and it updates its insights in place instead of appending new ones, so a branch keeps one insight per finding. Each thought also carries \`suggestedKeyPoints\`, keyphrases extracted from its content (RAKE scores weighted by inverse document frequency across the workspace). They make up the \`topics\` insight of each branch; topics compares the topic distributions of branches (\`branchId\` compares one branch with the rest), and visualize labels clusters with their top topics.
+
+**Sentiment:** Every thought's \`metadata.sentiment\` holds a lexicon-based tone score from -1 to 1 with a label (positive, negative, neutral or mixed) and the terms that produced it. Negations (\`not\`, \`never\`, \`n't\`...) flip and damp the next few words, intensifiers such as \`very\` or \`slightly\` scale them, and words after \`but\` outweigh the ones before. sentiment-timeline shows how a branch's tone evolved: each thought's score with a rolling average over \`window\` thoughts (default 3), where the rolling tone shifted, whether it is improving or declining, and the average per thought type. The \`sentiment\` insight summarizes the same.
+
+**Synthesis:** synthesize compares branches (\`branchIds\`, default all) and records what it finds as \`connection\` insights in every branch involved: conclusions several branches converge on, open questions (type \`question\` or ending in \`?\`) that another branch's thoughts may answer, and contradictions between branches. Each insight's \`context\` and \`supportingEvidence.crossRefs\` list the thoughts involved. Running it again updates these insights instead of duplicating them.
+
+**Insight Curation:** insights lists a branch's pinned insights plus its latest 10; rejected ones are hidden everywhere. accept-insight and reject-insight record a verdict (accepting also restores a rejected insight), pin-insight keeps an insight in insights, history and summarize-branch (\`pinned: false\` unpins), and edit-insight rewrites its \`content\` or \`insightType\` (analyzer reruns keep the edit). \`applicabilityScore\` follows the feedback: rejected insights score 0, accepted and pinned ones 1, and the rest their source's weight, (accepted + 2) / (accepted + rejected + 2) over all of that analyzer's insights, so rejections down-weight what the analyzer produces next. Applicability feeds branch priority.
+
+**Thought Types:** Thought types come from a registry (list-thought-types). Each type has a canonical name and aliases, and add-thought and edit-thought normalize to the canonical name, so \`Hypothesis\`, \`hyp\` and \`assumption\` are all stored as \`hypothesis\`. Some types expect \`fields\`: a \`claim\` needs \`evidence\`, a \`risk\` needs \`mitigation\`, a \`decision\` needs \`rationale\`. A type's default confidence applies when neither the thought nor its profile sets one. Unknown types and missing required fields are accepted with a warning by default; set-thought-type-strictness switches to \`strict\` (reject) or \`off\`. define-thought-type adds or replaces a type.
+
+**Query:** query filters thoughts with a compact syntax, e.g. \`type:hypothesis confidence>0.7 branch:research/* since:7d links:contradicts "caching"\`. Fields: type, confidence, score, belief, keypoint (substring of a key point), keypoints (count), profile, branch (\`name/*\` includes descendants), state (branch state), links / backlinks (link type or \`any\`), since / until (\`30m\`, \`12h\`, \`7d\`, \`2w\` or a date). Numeric fields take \`> >= < <= =\`; \`a,b\` matches either value; a leading \`-\` negates a term; bare words and quoted phrases must appear in the content. \`similar:"text"\` ranks by embedding similarity (filter with \`similarity>0.6\`). Page with \`sort:field\` (\`sort:-field\` descending), \`limit:n\` (default 20) and \`offset:n\`.
+
+**Suggested Links:** suggested-links compares highly similar thoughts that are not linked yet. Pairs that disagree (a negation on one side only, opposite words such as increase/decrease or enabled/disabled, different numbers for the same quantity) are proposed as \`contradicts\`, very similar pairs without such cues as \`supports\`, each with its evidence. accept-link creates the link; reject-link records the pair so it is never suggested again.
+
+**Undo and Redo:** undo reverts the most recent mutating command of this session, side effects included (auto-generated insights, reverse cross-references, extracted tasks); redo re-applies it. The last ${DEFAULT_UNDO_LIMIT} commands can be undone; running a new command clears redo, and switching workspaces clears both.
+
+**Event Journal:** Every mutating command is appended to an event journal (timestamp, actor, command, payload). Pass \`asOf\` (ISO date or epoch ms) to history, visualize or summarize-branch to see the workspace as it was at that time. Pass \`actor\` on any command to record who issued it.
+
+**Workspaces:** Each workspace has its own branch store, task store, embedding cache and journal under \`$MCP_STORAGE_PATH/workspaces/<name>\` (default root: \`~/.branch-thinking\`). The server reopens the last-used workspace on startup. Storage is either JSON files or an embedded SQLite database (\`storage: 'json' | 'sqlite'\`, default from \`MCP_STORAGE_BACKEND\`).
 
 **Visualization Options:**
 - clustering: { type: 'clustering', algorithm? }
@@ -651,7 +1710,7 @@ const BRANCHING_THOUGHT_TOOL: Tool = {
       },
       type: {
         type: "string",
-        description: "Thought type: e.g., 'analysis', 'hypothesis', 'observation', 'task', etc. Used for filtering and scoring."
+        description: "Thought type: e.g., 'hypothesis', 'observation', 'claim', 'risk'; aliases normalize to the canonical name (see list-thought-types). Used for filtering and scoring."
       },
       confidence: {
         type: "number",
@@ -662,10 +1721,14 @@ const BRANCHING_THOUGHT_TOOL: Tool = {
         items: { type: "string" },
         description: "Optional: Key points or highlights extracted from the thought."
       },
-      relatedInsights: {
-        type: "array",
-        items: { type: "string" },
-        description: "Optional: IDs of related insights, for semantic linking."
+      profileId: {
+        type: "string",
+        description: "Optional: Profile the thought belongs to; its settings supply defaults and rules."
+      },
+      fields: {
+        type: "object",
+        additionalProperties: { type: "string" },
+        description: "Optional: Type-specific fields, e.g. evidence for a claim or mitigation for a risk (see list-thought-types)."
       },
       crossRefs: {
         type: "array",
@@ -687,7 +1750,7 @@ const BRANCHING_THOUGHT_TOOL: Tool = {
         properties: {
           type: {
             type: "string",
-            enum: ["create-branch","list","focus","history","insights","crossrefs","hub-thoughts","semantic-search","link-thoughts","add-snippet","snippet-search","summarize-branch","doc-thought","extract-tasks","review-branch","visualize","ask"],
+            enum: ["create-branch","list","focus","history","insights","crossrefs","hub-thoughts","semantic-search","link-thoughts","add-snippet","snippet-search","summarize-branch","doc-thought","extract-tasks","review-branch","visualize","ask","journal","replay-journal","create-workspace","switch-workspace","list-workspaces","migrate-storage","export","import","merge-branches","fork-branch","diff-branches","tree","ancestors","descendants","move-branch","archive-branch","unarchive-branch","delete-branch","edit-thought","delete-thought","thought-revisions","beliefs","suggested-links","accept-link","reject-link","links","unlink-thoughts","check-integrity","query","list-analyzers","topics","sentiment-timeline","synthesize","accept-insight","reject-insight","pin-insight","edit-insight","create-profile","list-profiles","update-profile","delete-profile","list-thought-types","define-thought-type","set-thought-type-strictness","advance-task","assign-task","undo","redo","suspend-branch","resume-branch","complete-branch","abandon-branch"],
             description: "Command type (see tool description for complete list and semantics)."
           },
           branchId: {
@@ -705,11 +1768,11 @@ const BRANCHING_THOUGHT_TOOL: Tool = {
           },
           content: {
             type: "string",
-            description: "Content for add-snippet, search, or ask commands."
+            description: "Content for add-thought, edit-thought, edit-insight, add-snippet, search, or ask commands."
           },
           thoughtId: {
             type: "string",
-            description: "Thought ID for doc-thought, link-thoughts, or review commands."
+            description: "Thought ID for doc-thought, edit-thought, delete-thought, thought-revisions, links or review commands."
           },
           question: {
             type: "string",
@@ -717,36 +1780,226 @@ const BRANCHING_THOUGHT_TOOL: Tool = {
           },
           query: {
             type: "string",
-            description: "Query string for semantic-search, snippet-search, or other search commands."
+            description: "Query string for semantic-search, snippet-search or other search commands, or a filter expression for query (e.g. 'type:hypothesis confidence>0.7 since:7d caching')."
           },
           topN: {
             type: "number",
-            description: "Number of top results to return for semantic-search or snippet-search."
+            description: "Number of top results to return for semantic-search or snippet-search, or of topics per branch for topics."
+          },
+          window: {
+            type: "number",
+            description: "Optional: Number of thoughts in each rolling average of sentiment-timeline (default: 3)."
           },
           fromThoughtId: {
             type: "string",
-            description: "Source thought ID for link-thoughts or cross-linking commands."
+            description: "Source thought ID for link-thoughts, unlink-thoughts, accept-link, reject-link or cross-linking commands."
           },
           toThoughtId: {
             type: "string",
-            description: "Target thought ID for link-thoughts or cross-linking commands."
+            description: "Target thought ID for link-thoughts, unlink-thoughts, accept-link, reject-link or cross-linking commands."
           },
           linkType: {
             type: "string",
-            description: "Type of link for link-thoughts command (e.g., supports, contradicts, related, expands, refines)."
+            description: "Type of link for link-thoughts command (e.g., supports, contradicts, related, expands, refines); for accept-link, supports or contradicts to override the suggested type; for unlink-thoughts, only remove links of this type."
           },
           reason: {
             type: "string",
-            description: "Optional: Reason or context for linking thoughts."
+            description: "Reason or context for linking thoughts; required for suspend/resume/complete/abandon-branch, optional for archive-branch, edit-thought, reject-link and the insight curation commands."
           },
           parentBranchId: {
             type: "string",
-            description: "Optional: Parent branch ID for hierarchical organization when creating a branch."
+            description: "Optional: Parent branch ID when creating a branch (must exist), the new parent for move-branch (omit to make it a root), or the parent for imported branches."
           },
           autoVisualize: {
             type: "boolean",
             description: "Optional: Automatically visualize the branch after creation."
           },
+          asOf: {
+            type: "string",
+            description: "Optional: ISO timestamp for point-in-time views (history, visualize, summarize-branch, journal)."
+          },
+          actor: {
+            type: "string",
+            description: "Optional: Who issued the command; recorded in the event journal."
+          },
+          limit: {
+            type: "number",
+            description: "Optional: Maximum number of journal entries to return."
+          },
+          workspace: {
+            type: "string",
+            description: "Workspace name for create-workspace and switch-workspace."
+          },
+          switch: {
+            type: "boolean",
+            description: "Optional: Switch to the workspace right after create-workspace."
+          },
+          storage: {
+            type: "string",
+            enum: ["json", "sqlite"],
+            description: "Optional: Storage backend for create-workspace."
+          },
+          to: {
+            type: "string",
+            enum: ["json", "sqlite"],
+            description: "Target storage backend for migrate-storage."
+          },
+          format: {
+            type: "string",
+            enum: ["markdown", "obsidian", "json"],
+            description: "Optional: Export format (default markdown) or import format (default: detected). Obsidian writes one note per thought with wikilinks and frontmatter; json is a lossless bundle that import accepts."
+          },
+          outputDir: {
+            type: "string",
+            description: "Optional: Directory to export into (default: the workspace's exports folder)."
+          },
+          inline: {
+            type: "boolean",
+            description: "Optional: Return exported files in the response instead of writing them."
+          },
+          filePath: {
+            type: "string",
+            description: "File to import (Markdown outline or JSON bundle); alternatively pass the text as content."
+          },
+          thoughtType: {
+            type: "string",
+            description: "Optional: Thought type for add-thought, edit-thought or imported outline items."
+          },
+          sourceBranchId: {
+            type: "string",
+            description: "Branch to merge away (merge-branches) or to fork (fork-branch)."
+          },
+          targetBranchId: {
+            type: "string",
+            description: "Branch that receives the merged thoughts (merge-branches)."
+          },
+          strategy: {
+            type: "string",
+            enum: ["keep", "merge", "drop"],
+            description: "Optional: How merge-branches handles near-duplicate thoughts (default keep)."
+          },
+          threshold: {
+            type: "number",
+            description: "Optional: Embedding similarity (0-1) at which merge-branches treats thoughts as near-duplicates (default 0.9) or diff-branches pairs them (default 0.8)."
+          },
+          dryRun: {
+            type: "boolean",
+            description: "Optional: Preview the result without changing anything."
+          },
+          leftBranchId: {
+            type: "string",
+            description: "First branch to compare (diff-branches); its unique thoughts show as '-'."
+          },
+          rightBranchId: {
+            type: "string",
+            description: "Second branch to compare (diff-branches); its unique thoughts show as '+'."
+          },
+          atThoughtId: {
+            type: "string",
+            description: "Thought to fork at (fork-branch); it and every earlier thought are copied."
+          },
+          newBranchId: {
+            type: "string",
+            description: "ID of the branch created by fork-branch."
+          },
+          tree: {
+            type: "boolean",
+            description: "Optional: Render list as a branch tree with subtree rollups."
+          },
+          states: {
+            type: "array",
+            items: { type: "string", enum: ["active", "suspended", "completed", "dead_end"] },
+            description: "Optional: Only include branches in these states (list, visualize)."
+          },
+          force: {
+            type: "boolean",
+            description: "Optional: Allow add-thought, edit-thought or delete-thought on a completed or dead-end branch."
+          },
+          includeArchived: {
+            type: "boolean",
+            description: "Optional: Include archived branches in list and semantic-search."
+          },
+          taskAction: {
+            type: "string",
+            enum: ["close", "delete"],
+            description: "Optional: Close (default) or delete the tasks of a branch or thought removed by delete-branch or delete-thought."
+          },
+          confidence: {
+            type: "number",
+            description: "Optional: New confidence (0-1) for edit-thought."
+          },
+          keyPoints: {
+            type: "array",
+            items: { type: "string" },
+            description: "Optional: New key points for edit-thought (replaces the old list)."
+          },
+          profileId: {
+            type: "string",
+            description: "Profile for create-profile (optional readable ID), update-profile and delete-profile; filter for list, semantic-search and visualize; profile of a thought for add-thought."
+          },
+          name: {
+            type: "string",
+            description: "Profile name for create-profile or update-profile, or thought type name for define-thought-type."
+          },
+          settings: {
+            type: "object",
+            description: "Profile settings for create-profile or update-profile: defaultThoughtType, defaultConfidence, allowedThoughtTypes, crossRefThreshold, scoringWeights, analyzers."
+          },
+          branchIds: {
+            type: "array",
+            items: { type: "string" },
+            description: "Optional: Branches for synthesize to compare (default: all branches with thoughts)."
+          },
+          insightId: {
+            type: "string",
+            description: "Insight to curate with accept-insight, reject-insight, pin-insight or edit-insight."
+          },
+          pinned: {
+            type: "boolean",
+            description: "Optional: For pin-insight, false unpins (default: true)."
+          },
+          insightType: {
+            type: "string",
+            enum: INSIGHT_TYPES,
+            description: "Optional: New type for edit-insight."
+          },
+          fields: {
+            type: "object",
+            additionalProperties: { type: "string" },
+            description: "Optional: Type-specific fields for add-thought (e.g. evidence for a claim); for edit-thought they are merged into the existing ones, an empty value removes one."
+          },
+          aliases: {
+            type: "array",
+            items: { type: "string" },
+            description: "Optional: Other names that normalize to the type, for define-thought-type."
+          },
+          description: {
+            type: "string",
+            description: "Optional: What the type is for, for define-thought-type."
+          },
+          requiredFields: {
+            type: "array",
+            items: { type: "string" },
+            description: "Optional: Fields every thought of the type must have, for define-thought-type."
+          },
+          defaultConfidence: {
+            type: "number",
+            description: "Optional: Confidence (0-1) for thoughts of the type that set none, for define-thought-type."
+          },
+          strictness: {
+            type: "string",
+            enum: ["strict", "warn", "off"],
+            description: "How add-thought and edit-thought treat unknown thought types and missing required fields, for set-thought-type-strictness."
+          },
+          repair: {
+            type: "boolean",
+            description: "Optional: Let check-integrity remove dangling links and cross-references and detach orphaned tasks."
+          },
+          colorBy: {
+            type: "string",
+            enum: ["cluster", "belief"],
+            description: "Optional: Color visualize nodes by cluster (default) or by propagated belief."
+          },
         },
         required: ["type"]
       }
@@ -770,7 +2023,7 @@ const server = new Server(
   }
 );
 
-const thinkingServer = new BranchingThoughtServer();
+const thinkingServer = new BranchingThoughtServer(undefined, null, new WorkspaceManager());
 
 server.setRequestHandler(ListToolsRequestSchema, async () => ({
   tools: [BRANCHING_THOUGHT_TOOL],
@@ -790,6 +2043,7 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
 });
 
 async function runServer() {
+  await thinkingServer.init();
   const transport = new StdioServerTransport();
   await server.connect(transport);
   console.error("Branch Thinking MCP Server running on stdio");
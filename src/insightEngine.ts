@@ -0,0 +1,174 @@
+// Insight engine: registered analyzers derive branch insights; each insight is keyed so a rerun updates it in place
+import { Insight, InsightType, SentimentLabel, ThoughtBranch, ThoughtData } from './types.js';
+import { rankTopics } from './keyphrases.js';
+import { sentimentLabel, sentimentTrend } from './sentiment.js';
+
+// Thought fields an analyzer can read
+export type AnalyzerInput = 'content' | 'keyPoints' | 'suggestedKeyPoints' | 'sentiment' | 'type' | 'confidence' | 'links' | 'timestamp';
+
+export interface InsightCandidate {
+  key: string; // identity within the analyzer: a rerun producing the same key updates that insight
+  type: InsightType;
+  content: string;
+  context: string[]; // IDs of the thoughts the insight is about
+  supportingEvidence?: Insight['supportingEvidence'];
+}
+
+export interface InsightAnalyzer {
+  id: string;
+  description: string;
+  inputs: AnalyzerInput[]; // the analyzer only reruns on a branch when one of these changes
+  enabledByDefault: boolean; // profiles can override this with their `analyzers` setting
+  analyze(thoughts: ThoughtData[], branch: ThoughtBranch): InsightCandidate[];
+}
+
+export interface AnalyzerRun {
+  analyzer: InsightAnalyzer;
+  candidates: InsightCandidate[];
+}
+
+const keyPointsAnalyzer: InsightAnalyzer = {
+  id: 'key-points',
+  description: 'Key points that recur across thoughts of the branch',
+  inputs: ['keyPoints'],
+  enabledByDefault: true,
+  analyze(thoughts) {
+    // Key points match regardless of case and spacing; the first spelling seen is reported
+    const byKeyPoint = new Map<string, { label: string; ids: Set<string> }>();
+    for (const t of thoughts) {
+      for (const kp of t.metadata.keyPoints) {
+        const norm = kp.trim().toLowerCase().replace(/\s+/g, ' ');
+        if (!norm) continue;
+        const entry = byKeyPoint.get(norm) || { label: kp.trim(), ids: new Set<string>() };
+        entry.ids.add(t.id);
+        byKeyPoint.set(norm, entry);
+      }
+    }
+    const frequent = Array.from(byKeyPoint.values())
+      .filter(({ ids }) => ids.size > 1)
+      .sort((a, b) => b.ids.size - a.ids.size);
+    if (!frequent.length) return [];
+    return [{
+      key: 'frequent',
+      type: 'behavioral_pattern',
+      content: `Frequent key points: ${frequent.map(({ label, ids }) => `${label} (${ids.size})`).join(', ')}`,
+      context: Array.from(new Set(frequent.flatMap(({ ids }) => Array.from(ids)))),
+      supportingEvidence: { data: frequent.map(({ label }) => label) }
+    }];
+  }
+};
+
+const sentimentAnalyzer: InsightAnalyzer = {
+  id: 'sentiment',
+  description: 'Overall tone of the branch and its direction, from the sentiment score of each thought',
+  inputs: ['sentiment'],
+  enabledByDefault: true,
+  analyze(thoughts) {
+    const scored = thoughts.filter(t => t.metadata.sentiment);
+    const count = (label: SentimentLabel) => scored.filter(t => t.metadata.sentiment!.label === label).length;
+    const pos = count('positive'), neg = count('negative');
+    if (!pos && !neg) return [];
+    const scores = scored.map(t => t.metadata.sentiment!.score);
+    const average = Math.round((scores.reduce((a, b) => a + b, 0) / scores.length) * 1000) / 1000;
+    const label = pos && neg && sentimentLabel(average) === 'neutral' ? 'mixed' : sentimentLabel(average);
+    const { trend } = sentimentTrend(scores);
+    return [{
+      key: 'trend',
+      type: 'observation',
+      content: `Branch sentiment trend: ${label}, ${trend} (average ${average}; ${pos} positive, ${neg} negative, ${scored.length - pos - neg} neutral or mixed)`,
+      context: scored.filter(t => t.metadata.sentiment!.label === 'positive' || t.metadata.sentiment!.label === 'negative').map(t => t.id)
+    }];
+  }
+};
+
+// Number of topics a branch's topic insight lists
+const TOPIC_INSIGHT_LIMIT = 5;
+
+const topicsAnalyzer: InsightAnalyzer = {
+  id: 'topics',
+  description: 'Ranked topics of the branch from the keyphrases extracted from its thoughts',
+  inputs: ['suggestedKeyPoints'],
+  enabledByDefault: true,
+  analyze(thoughts) {
+    const topics = rankTopics(thoughts.map(t => t.suggestedKeyPoints || []), TOPIC_INSIGHT_LIMIT);
+    if (!topics.length) return [];
+    return [{
+      key: 'topics',
+      type: 'behavioral_pattern',
+      content: `Branch topics: ${topics.map(t => `${t.topic} (${Math.round(t.share * 100)}%)`).join(', ')}`,
+      context: thoughts
+        .filter(t => t.suggestedKeyPoints?.some(k => topics.some(topic => ` ${k.phrase} `.includes(` ${topic.topic} `))))
+        .map(t => t.id),
+      supportingEvidence: { data: topics.map(t => t.topic) }
+    }];
+  }
+};
+
+export const BUILT_IN_ANALYZERS: InsightAnalyzer[] = [keyPointsAnalyzer, sentimentAnalyzer, topicsAnalyzer];
+
+function pick(thought: ThoughtData, input: AnalyzerInput): unknown {
+  switch (input) {
+    case 'content': return thought.content;
+    case 'keyPoints': return thought.metadata.keyPoints;
+    case 'suggestedKeyPoints': return thought.suggestedKeyPoints || [];
+    case 'sentiment': return thought.metadata.sentiment?.score;
+    case 'type': return thought.metadata.type;
+    case 'confidence': return thought.metadata.confidence;
+    case 'links': return thought.linkedThoughts || [];
+    case 'timestamp': return new Date(thought.timestamp).getTime();
+  }
+}
+
+/**
+ * Runs analyzers over branches. For each branch it remembers what each analyzer last saw
+ * (only the inputs it declares), so unchanged analyzers are skipped.
+ */
+export class InsightEngine {
+  private analyzers = new Map<string, InsightAnalyzer>();
+  private signatures = new Map<string, string>(); // `branchId analyzerId` -> inputs at the last run
+
+  constructor(analyzers: InsightAnalyzer[] = BUILT_IN_ANALYZERS) {
+    analyzers.forEach(a => this.register(a));
+  }
+
+  register(analyzer: InsightAnalyzer): void {
+    if (this.analyzers.has(analyzer.id)) throw new Error(`Insight analyzer ${analyzer.id} is already registered`);
+    this.analyzers.set(analyzer.id, analyzer);
+  }
+
+  has(id: string): boolean {
+    return this.analyzers.has(id);
+  }
+
+  list(): InsightAnalyzer[] {
+    return Array.from(this.analyzers.values());
+  }
+
+  /**
+   * Run every analyzer whose inputs changed since it last ran on the branch. `thoughtsFor`
+   * picks the thoughts an analyzer may see, so profiles can switch analyzers off for their thoughts.
+   */
+  run(branch: ThoughtBranch, thoughtsFor: (analyzer: InsightAnalyzer) => ThoughtData[]): AnalyzerRun[] {
+    const runs: AnalyzerRun[] = [];
+    for (const analyzer of this.analyzers.values()) {
+      const thoughts = thoughtsFor(analyzer);
+      const signature = JSON.stringify(thoughts.map(t => [t.id, ...analyzer.inputs.map(input => pick(t, input))]));
+      const slot = `${branch.id} ${analyzer.id}`;
+      if (this.signatures.get(slot) === signature) continue;
+      this.signatures.set(slot, signature);
+      runs.push({ analyzer, candidates: thoughts.length ? analyzer.analyze(thoughts, branch) : [] });
+    }
+    return runs;
+  }
+
+  // Forget what was analyzed (for one branch or all), so the next run starts fresh
+  forget(branchId?: string): void {
+    if (branchId === undefined) {
+      this.signatures.clear();
+      return;
+    }
+    for (const slot of Array.from(this.signatures.keys())) {
+      if (slot.startsWith(`${branchId} `)) this.signatures.delete(slot);
+    }
+  }
+}
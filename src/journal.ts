@@ -0,0 +1,58 @@
+// EventJournal: append-only JSONL log of mutating commands, used for audit and replay
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { JournalEntry } from './types.js';
+import { isNotFound } from './storage.js';
+
+export class EventJournal {
+  constructor(private filePath: string) {}
+
+  getPath(): string {
+    return this.filePath;
+  }
+
+  /**
+   * Append one entry. Entries are never rewritten or removed.
+   */
+  async append(entry: JournalEntry): Promise<void> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.appendFile(this.filePath, JSON.stringify(entry) + '\n', 'utf8');
+  }
+
+  /**
+   * Read entries in write order, optionally only those recorded at or before `asOf`.
+   */
+  async read(asOf?: Date): Promise<JournalEntry[]> {
+    let raw: string;
+    try {
+      raw = await fs.readFile(this.filePath, 'utf8');
+    } catch (e) {
+      if (isNotFound(e)) return [];
+      throw e;
+    }
+    const entries: JournalEntry[] = [];
+    for (const line of raw.split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        entries.push(JSON.parse(line));
+      } catch {
+        // A torn final line (crash mid-append) is skipped rather than failing the whole read
+        console.error(`[JOURNAL] Skipping malformed entry in ${this.filePath}`);
+      }
+    }
+    if (!asOf) return entries;
+    const cutoff = asOf.getTime();
+    return entries.filter(e => new Date(e.timestamp).getTime() <= cutoff);
+  }
+}
+
+/**
+ * Parse an `asOf` option (ISO string or epoch milliseconds) into a Date.
+ */
+export function parseAsOf(value: unknown): Date {
+  const date = typeof value === 'number' ? new Date(value) : new Date(String(value));
+  if (isNaN(date.getTime())) {
+    throw new Error(`Invalid asOf value: ${value}`);
+  }
+  return date;
+}
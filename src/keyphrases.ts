@@ -0,0 +1,158 @@
+// Keyphrases: RAKE-style candidate phrases from thought content, weighted by inverse document frequency
+import { Keyphrase, Topic } from './types.js';
+import { stripTaskMetadata } from './tasks.js';
+
+export const DEFAULT_KEYPHRASE_LIMIT = 5;
+export const DEFAULT_TOPIC_LIMIT = 10;
+const MAX_PHRASE_WORDS = 3;
+
+const STOPWORDS = new Set([
+  'a', 'about', 'above', 'after', 'again', 'against', 'all', 'also', 'am', 'an', 'and', 'any', 'are', 'as', 'at',
+  'be', 'because', 'been', 'before', 'being', 'below', 'between', 'both', 'but', 'by', 'can', 'could', 'did', 'do',
+  'does', 'doing', 'down', 'during', 'each', 'either', 'else', 'etc', 'even', 'every', 'few', 'for', 'from', 'further',
+  'get', 'gets', 'got', 'had', 'has', 'have', 'having', 'he', 'her', 'here', 'hers', 'him', 'his', 'how', 'however',
+  'i', 'if', 'in', 'into', 'is', 'it', 'its', 'itself', 'just', 'let', 'like', 'may', 'me', 'might', 'more', 'most',
+  'much', 'must', 'my', 'need', 'needs', 'no', 'nor', 'not', 'now', 'of', 'off', 'often', 'on', 'once', 'one', 'only',
+  'or', 'other', 'our', 'ours', 'out', 'over', 'own', 'per', 'quite', 'rather', 'really', 'same', 'she', 'should',
+  'since', 'so', 'some', 'still', 'such', 'than', 'that', 'the', 'their', 'theirs', 'them', 'then', 'there', 'these',
+  'they', 'this', 'those', 'though', 'through', 'thus', 'to', 'too', 'under', 'until', 'up', 'upon', 'us', 'use',
+  'used', 'using', 'very', 'via', 'was', 'we', 'well', 'were', 'what', 'when', 'where', 'whether', 'which', 'while',
+  'who', 'whom', 'why', 'will', 'with', 'within', 'without', 'would', 'yes', 'yet', 'you', 'your', 'yours',
+  // what is left of contractions once the apostrophe splits them
+  'aren', 'couldn', 'didn', 'doesn', 'don', 'hasn', 'haven', 'isn', 'll', 're', 've', 'wasn', 'weren', 'won', 'wouldn'
+]);
+
+/**
+ * Candidate phrases of a text: runs of up to three content words, broken at stopwords,
+ * punctuation, numbers and dates. Task markers, assignees and due dates are dropped first.
+ * Lowercased; repeated phrases are kept so frequency counts.
+ */
+export function candidatePhrases(text: string): string[][] {
+  const phrases: string[][] = [];
+  for (const fragment of stripTaskMetadata(text).toLowerCase().split(/[.,;:!?()[\]{}"'`\n\r\t|/\\]+|\s[-–—]\s/)) {
+    let current: string[] = [];
+    const flush = () => {
+      for (let i = 0; i < current.length; i += MAX_PHRASE_WORDS) phrases.push(current.slice(i, i + MAX_PHRASE_WORDS));
+      current = [];
+    };
+    for (const raw of fragment.split(/\s+/)) {
+      const word = raw.replace(/^[^a-z0-9]+|[^a-z0-9]+$/g, '');
+      if (!word || word.length < 2 || STOPWORDS.has(word) || /^\d[\d.,:-]*$/.test(word)) flush();
+      else current.push(word);
+    }
+    flush();
+  }
+  return phrases;
+}
+
+/**
+ * Document frequencies of the words of a set of texts, kept up to date one text at a time.
+ * `idf` is smoothed so a word found in every text still counts a little and unseen words
+ * count the most.
+ */
+export class DocumentFrequencies {
+  private words = new Map<string, Set<string>>(); // text ID -> its distinct words
+  private counts = new Map<string, number>(); // word -> texts containing it
+
+  get size(): number {
+    return this.words.size;
+  }
+
+  set(id: string, text: string): void {
+    this.delete(id);
+    const words = new Set(candidatePhrases(text).flat());
+    this.words.set(id, words);
+    for (const word of words) this.counts.set(word, (this.counts.get(word) || 0) + 1);
+  }
+
+  delete(id: string): void {
+    const words = this.words.get(id);
+    if (!words) return;
+    this.words.delete(id);
+    for (const word of words) {
+      const count = this.counts.get(word)! - 1;
+      if (count) this.counts.set(word, count);
+      else this.counts.delete(word);
+    }
+  }
+
+  clear(): void {
+    this.words.clear();
+    this.counts.clear();
+  }
+
+  idf = (word: string): number => Math.log((this.words.size + 1) / ((this.counts.get(word) || 0) + 1)) + 1;
+}
+
+/**
+ * Rank the keyphrases of one text. Words get the RAKE score (degree / frequency within
+ * the text) times their IDF; a phrase scores the sum of its words.
+ */
+export function extractKeyphrases(text: string, idf: (word: string) => number, limit = DEFAULT_KEYPHRASE_LIMIT): Keyphrase[] {
+  const phrases = candidatePhrases(text);
+  const frequency = new Map<string, number>();
+  const degree = new Map<string, number>();
+  for (const phrase of phrases) {
+    for (const word of phrase) {
+      frequency.set(word, (frequency.get(word) || 0) + 1);
+      degree.set(word, (degree.get(word) || 0) + phrase.length);
+    }
+  }
+  const scored = new Map<string, number>();
+  for (const phrase of phrases) {
+    const key = phrase.join(' ');
+    if (scored.has(key)) continue;
+    scored.set(key, phrase.reduce((sum, w) => sum + (degree.get(w)! / frequency.get(w)!) * idf(w), 0));
+  }
+  return Array.from(scored.entries())
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .slice(0, limit)
+    .map(([phrase, score]) => ({ phrase, score: Math.round(score * 1000) / 1000 }));
+}
+
+// Longest word n-gram of a keyphrase that counts as a topic
+const MAX_TOPIC_WORDS = 2;
+
+/**
+ * Topic weights of a set of keyphrase lists. Every one- and two-word n-gram of a keyphrase
+ * receives the phrase's score in proportion to its length, so topics shared by differently
+ * worded phrases ("redis cache invalidation", "redis cache keys") add up.
+ */
+export function topicWeights(keyphrases: Keyphrase[][]): Map<string, number> {
+  const weights = new Map<string, number>();
+  for (const list of keyphrases) {
+    for (const { phrase, score } of list) {
+      const words = phrase.split(' ');
+      for (let n = 1; n <= Math.min(MAX_TOPIC_WORDS, words.length); n++) {
+        for (let i = 0; i + n <= words.length; i++) {
+          const topic = words.slice(i, i + n).join(' ');
+          weights.set(topic, (weights.get(topic) || 0) + (score * n) / words.length);
+        }
+      }
+    }
+  }
+  return weights;
+}
+
+/**
+ * Rank topics by weight. A topic sharing a word with a higher-ranked topic is left out
+ * (`redis cache` after `cache`); share is a topic's weight over the weight of all topics.
+ */
+export function rankTopics(keyphrases: Keyphrase[][], limit = DEFAULT_TOPIC_LIMIT): Topic[] {
+  const weights = topicWeights(keyphrases);
+  const total = Array.from(weights.values()).reduce((a, b) => a + b, 0);
+  const covered = new Set<string>();
+  const topics: Topic[] = [];
+  for (const [topic, weight] of Array.from(weights.entries()).sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))) {
+    if (topics.length >= limit) break;
+    const words = topic.split(' ');
+    if (words.some(w => covered.has(w))) continue;
+    words.forEach(w => covered.add(w));
+    topics.push({
+      topic,
+      weight: Math.round(weight * 1000) / 1000,
+      share: total ? Math.round((weight / total) * 1000) / 1000 : 0
+    });
+  }
+  return topics;
+}
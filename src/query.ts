@@ -0,0 +1,102 @@
+// Query: parse the compact filter syntax of the `query` command into terms BranchManager can evaluate
+
+export type QueryOp = ':' | '=' | '>' | '>=' | '<' | '<=';
+
+export interface QueryTerm {
+  field: QueryField;
+  op: QueryOp;
+  value: string;
+  negate: boolean; // written with a leading `-`
+}
+
+export const QUERY_FIELDS = [
+  'type', 'confidence', 'score', 'belief', 'keypoint', 'keypoints', 'profile', 'branch', 'state',
+  'links', 'backlinks', 'since', 'until', 'similarity'
+] as const;
+export type QueryField = typeof QUERY_FIELDS[number];
+
+export const NUMERIC_QUERY_FIELDS: QueryField[] = ['confidence', 'score', 'belief', 'keypoints', 'similarity'];
+export const QUERY_SORT_FIELDS = ['timestamp', 'confidence', 'score', 'belief', 'keypoints', 'similarity', 'branch'] as const;
+export type QuerySortField = typeof QUERY_SORT_FIELDS[number];
+
+export const DEFAULT_QUERY_LIMIT = 20;
+
+export interface ThoughtQuery {
+  terms: QueryTerm[];
+  text: Array<{ value: string; negate: boolean }>; // bare words and quoted phrases, matched in content
+  similar?: string; // semantic term: rank by embedding similarity to this text
+  sort?: { field: QuerySortField; descending: boolean };
+  limit: number;
+  offset: number;
+}
+
+const TOKEN = /(-?)(?:([a-zA-Z]+)(>=|<=|:|=|>|<)(?:"([^"]*)"|(\S+))|"([^"]*)"|(\S+))/g;
+const DURATION = /^(\d+(?:\.\d+)?)(m|h|d|w)$/;
+const DURATION_MS: Record<string, number> = { m: 60_000, h: 3_600_000, d: 86_400_000, w: 604_800_000 };
+
+/**
+ * Parse a query such as `type:hypothesis confidence>0.7 branch:research/* since:7d -links:contradicts "caching"`.
+ * `field:a,b` matches any of the listed values, a leading `-` negates a term, and words or quoted
+ * phrases without a field must appear in the content. `similar:"text"` adds a semantic term;
+ * `sort:field` (`sort:-field` for descending), `limit:n` and `offset:n` control the result page.
+ */
+export function parseQuery(text: string): ThoughtQuery {
+  const query: ThoughtQuery = { terms: [], text: [], limit: DEFAULT_QUERY_LIMIT, offset: 0 };
+  for (const match of text.matchAll(TOKEN)) {
+    const [, minus, rawField, op, quoted, bare, phrase, word] = match;
+    const negate = minus === '-';
+    if (!rawField) {
+      const value = phrase ?? word;
+      if (value) query.text.push({ value: value.toLowerCase(), negate });
+      continue;
+    }
+    const field = rawField.toLowerCase();
+    const value = quoted ?? bare;
+    if (field === 'similar') {
+      if (op !== ':' && op !== '=') throw new Error('similar takes a value: similar:"some text"');
+      query.similar = value;
+    } else if (field === 'sort') {
+      const descending = value.startsWith('-');
+      const sortField = (descending ? value.slice(1) : value).toLowerCase();
+      const normalized = sortField === 'created' ? 'timestamp' : sortField;
+      if (!(QUERY_SORT_FIELDS as readonly string[]).includes(normalized)) {
+        throw new Error(`Cannot sort by ${sortField} (expected ${QUERY_SORT_FIELDS.join(', ')})`);
+      }
+      query.sort = { field: normalized as QuerySortField, descending };
+    } else if (field === 'limit' || field === 'offset') {
+      const n = Number(value);
+      if (!Number.isInteger(n) || n < 0) throw new Error(`${field} must be a non-negative integer, got ${value}`);
+      query[field] = n;
+    } else {
+      if (!(QUERY_FIELDS as readonly string[]).includes(field)) {
+        throw new Error(`Unknown query field: ${rawField} (expected ${QUERY_FIELDS.join(', ')})`);
+      }
+      const numeric = NUMERIC_QUERY_FIELDS.includes(field as QueryField);
+      if (!numeric && op !== ':' && op !== '=') throw new Error(`${field} does not support ${op}`);
+      if (numeric && Number.isNaN(Number(value))) throw new Error(`${field} needs a number, got ${value}`);
+      query.terms.push({ field: field as QueryField, op: op as QueryOp, value, negate });
+    }
+  }
+  return query;
+}
+
+/**
+ * Resolve a `since` / `until` value: a duration back from `now` (`30m`, `12h`, `7d`, `2w`) or a date.
+ */
+export function parseQueryTime(value: string, now: Date): Date {
+  const duration = DURATION.exec(value);
+  if (duration) return new Date(now.getTime() - Number(duration[1]) * DURATION_MS[duration[2]]);
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) throw new Error(`Invalid time: ${value} (use a duration like 7d or a date)`);
+  return date;
+}
+
+export function compareNumber(actual: number, op: QueryOp, expected: number): boolean {
+  switch (op) {
+    case '>': return actual > expected;
+    case '>=': return actual >= expected;
+    case '<': return actual < expected;
+    case '<=': return actual <= expected;
+    default: return actual === expected;
+  }
+}
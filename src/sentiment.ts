@@ -0,0 +1,113 @@
+// Sentiment: lexicon-based tone of a thought, with negation, intensifiers and contrast handling
+import { SentimentLabel, SentimentTrend, ThoughtSentiment } from './types.js';
+
+// Valence from -3 (strongly negative) to 3 (strongly positive). Words that are everyday
+// engineering vocabulary ("issue", "error", "support") are left out on purpose.
+const LEXICON: Record<string, number> = {
+  // positive
+  good: 2, great: 3, excellent: 3, positive: 2, success: 2, successful: 2, succeed: 2, succeeds: 2, improve: 2,
+  improves: 2, improved: 2, improvement: 2, better: 2, best: 3, benefit: 2, benefits: 2, beneficial: 2, effective: 2,
+  efficient: 2, reliable: 2, robust: 2, stable: 1, safe: 1, secure: 1, simple: 1, clean: 1, clear: 1, easy: 1,
+  fast: 1, faster: 1, promising: 2, strong: 1, solid: 1, correct: 1, works: 1, working: 1, fixed: 1, solves: 2,
+  solved: 2, resolved: 1, agree: 1, agreed: 1, confident: 2, advantage: 2, win: 2,
+  wins: 2, gain: 1, gains: 1, opportunity: 1, valuable: 2, useful: 2, helpful: 2, happy: 2, love: 3,
+  nice: 2, elegant: 2, feasible: 1, viable: 1, mitigated: 1, healthy: 2, recommended: 1, progress: 1,
+  // negative
+  bad: -2, terrible: -3, awful: -3, poor: -2, negative: -2, fail: -2, fails: -2, failed: -2, failure: -2,
+  failing: -2, problem: -2, problems: -2, problematic: -2, bug: -1, bugs: -1, broken: -2,
+  crash: -2, crashes: -2, wrong: -2, worse: -2, worst: -3, slow: -1, slower: -1,
+  risk: -1, risks: -1, risky: -2, danger: -2, dangerous: -2, unsafe: -2, insecure: -2, vulnerable: -2,
+  vulnerability: -2, threat: -2, threats: -2, concern: -1, concerns: -1, concerned: -1, worry: -2, worried: -2,
+  difficult: -1, hard: -1, complex: -1, complicated: -1, confusing: -2, unclear: -1, fragile: -2, flaky: -2,
+  unreliable: -2, expensive: -1, costly: -1, blocked: -2, blocker: -2, regression: -2, outage: -3, leak: -2,
+  leaks: -2, loss: -2, lose: -2, weak: -1, weakness: -1, disagree: -1, oppose: -1, reject: -1,
+  rejected: -1, impossible: -2, infeasible: -2, doubt: -1, doubtful: -1, hate: -3, ugly: -2, mess: -2, painful: -2,
+  drawback: -1, drawbacks: -1, downside: -1, limitation: -1, limitations: -1, bottleneck: -2, deadlock: -2
+};
+
+const NEGATIONS = new Set(['not', 'no', 'never', 'none', 'nothing', 'neither', 'nor', 'cannot', 'without', 'hardly', 'barely']);
+// Tokens a negation reaches forward
+const NEGATION_SCOPE = 3;
+// A negated word keeps part of its strength with the opposite sign: "not good" is mildly negative
+const NEGATION_FACTOR = -0.5;
+
+const BOOSTERS: Record<string, number> = {
+  very: 1.5, extremely: 2, really: 1.3, highly: 1.5, incredibly: 2, totally: 1.5, completely: 1.5, seriously: 1.5,
+  major: 1.5, severe: 1.8, critical: 1.8, huge: 1.5,
+  slightly: 0.5, somewhat: 0.6, bit: 0.6, mildly: 0.5, minor: 0.5, little: 0.6
+};
+
+// Words before a contrast count less than the words after it: "fast but unreliable" leans negative
+const CONTRASTS = new Set(['but', 'however', 'although', 'though', 'yet']);
+const BEFORE_CONTRAST = 0.5;
+const AFTER_CONTRAST = 1.5;
+
+// Normalization constant: raw sums map onto -1..1 as sum / sqrt(sum² + α)
+const NORMALIZE_ALPHA = 15;
+// |score| below which a thought counts as neutral (or mixed, when it has hits on both sides)
+const NEUTRAL_BAND = 0.05;
+// Change of average score between a branch's first and second half that counts as a trend
+const TREND_DELTA = 0.15;
+
+function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/n't\b/g, ' not')
+    .split(/[^a-z]+/)
+    .filter(Boolean);
+}
+
+/**
+ * Score a text. Each lexicon word contributes its valence, scaled by a booster right before
+ * it, flipped and damped by a negation up to three words earlier, and weighted down before /
+ * up after a contrast word. The sum is normalized to -1..1.
+ */
+export function scoreSentiment(text: string): ThoughtSentiment {
+  const tokens = tokenize(text);
+  const contrastAt = tokens.reduce((last, t, i) => (CONTRASTS.has(t) ? i : last), -1);
+  let sum = 0, positive = 0, negative = 0;
+  const terms: string[] = [];
+  tokens.forEach((token, i) => {
+    const valence = LEXICON[token];
+    if (valence === undefined) return;
+    let value = valence;
+    const words = [token];
+    const booster = BOOSTERS[tokens[i - 1]];
+    if (booster !== undefined) {
+      value *= booster;
+      words.unshift(tokens[i - 1]);
+    }
+    const scope = tokens.slice(Math.max(0, i - NEGATION_SCOPE), i);
+    const negation = scope.find(t => NEGATIONS.has(t));
+    // A contrast between the negation and the word ends the negation's reach
+    if (negation && !scope.slice(scope.lastIndexOf(negation)).some(t => CONTRASTS.has(t))) {
+      value *= NEGATION_FACTOR;
+      if (!words.includes(negation)) words.unshift(negation);
+    }
+    if (contrastAt >= 0) value *= i < contrastAt ? BEFORE_CONTRAST : AFTER_CONTRAST;
+    sum += value;
+    if (value > 0) positive++;
+    if (value < 0) negative++;
+    terms.push(`${words.join(' ')} (${value > 0 ? '+' : ''}${Math.round(value * 100) / 100})`);
+  });
+  const score = Math.round((sum / Math.sqrt(sum * sum + NORMALIZE_ALPHA)) * 1000) / 1000;
+  const label = sentimentLabel(score);
+  return { score, label: label === 'neutral' && positive && negative ? 'mixed' : label, terms };
+}
+
+// Label of a score or an average of scores
+export function sentimentLabel(score: number): SentimentLabel {
+  return score > NEUTRAL_BAND ? 'positive' : score < -NEUTRAL_BAND ? 'negative' : 'neutral';
+}
+
+/**
+ * Direction of a sequence of scores (oldest first): the average of the second half against
+ * the first half. Fewer than two scores are steady.
+ */
+export function sentimentTrend(scores: number[]): { trend: SentimentTrend; delta: number } {
+  if (scores.length < 2) return { trend: 'steady', delta: 0 };
+  const mid = Math.floor(scores.length / 2);
+  const avg = (values: number[]) => values.reduce((a, b) => a + b, 0) / values.length;
+  const delta = Math.round((avg(scores.slice(scores.length - mid)) - avg(scores.slice(0, mid))) * 1000) / 1000;
+  return { trend: delta >= TREND_DELTA ? 'improving' : delta <= -TREND_DELTA ? 'declining' : 'steady', delta };
+}
@@ -0,0 +1,268 @@
+// SqliteStorageAdapter: embedded SQLite backend with one table per kind of state
+import { promises as fs } from 'fs';
+import { createHash } from 'crypto';
+import * as path from 'path';
+import type BetterSqlite3 from 'better-sqlite3';
+import { StorageAdapter, StorageBackend, EmbeddingCacheEntries, reviveSnapshot, WORKSPACE_SNAPSHOT_VERSION } from './storage.js';
+import { TaskItem, ThoughtLink, ThoughtLinkType, WorkspaceSnapshot } from './types.js';
+
+const SCHEMA = `
+CREATE TABLE IF NOT EXISTS meta (key TEXT PRIMARY KEY, value TEXT NOT NULL);
+CREATE TABLE IF NOT EXISTS branches (
+  id TEXT PRIMARY KEY, position INTEGER NOT NULL, parent_branch_id TEXT, state TEXT NOT NULL, data TEXT NOT NULL
+);
+CREATE TABLE IF NOT EXISTS thoughts (
+  id TEXT PRIMARY KEY, branch_id TEXT NOT NULL, position INTEGER NOT NULL, type TEXT, confidence REAL,
+  score REAL, timestamp TEXT, content TEXT NOT NULL, data TEXT NOT NULL
+);
+CREATE INDEX IF NOT EXISTS idx_thoughts_branch ON thoughts (branch_id, position);
+CREATE TABLE IF NOT EXISTS links (
+  id TEXT PRIMARY KEY, from_thought_id TEXT NOT NULL, position INTEGER NOT NULL, to_thought_id TEXT NOT NULL,
+  type TEXT NOT NULL, reason TEXT
+);
+CREATE INDEX IF NOT EXISTS idx_links_from ON links (from_thought_id, position);
+CREATE INDEX IF NOT EXISTS idx_links_to ON links (to_thought_id);
+CREATE TABLE IF NOT EXISTS insights (
+  id TEXT PRIMARY KEY, branch_id TEXT NOT NULL, position INTEGER NOT NULL, type TEXT NOT NULL,
+  content TEXT NOT NULL, data TEXT NOT NULL
+);
+CREATE INDEX IF NOT EXISTS idx_insights_branch ON insights (branch_id, position);
+CREATE TABLE IF NOT EXISTS archived_branches (id TEXT PRIMARY KEY, position INTEGER NOT NULL, data TEXT NOT NULL);
+CREATE TABLE IF NOT EXISTS snippets (id TEXT PRIMARY KEY, position INTEGER NOT NULL, data TEXT NOT NULL);
+CREATE TABLE IF NOT EXISTS profiles (id TEXT PRIMARY KEY, position INTEGER NOT NULL, data TEXT NOT NULL);
+CREATE TABLE IF NOT EXISTS tasks (
+  id TEXT PRIMARY KEY, position INTEGER NOT NULL, branch_id TEXT NOT NULL, thought_id TEXT,
+  status TEXT NOT NULL, data TEXT NOT NULL
+);
+CREATE INDEX IF NOT EXISTS idx_tasks_branch ON tasks (branch_id);
+CREATE TABLE IF NOT EXISTS embeddings (id TEXT PRIMARY KEY, embedding TEXT NOT NULL);
+`;
+
+type Row = Record<string, string | number | null>;
+
+// Compact fingerprint of a row, so change tracking doesn't keep a second copy of every embedding
+function rowSignature(row: Row): string {
+  return createHash('sha1').update(JSON.stringify(row)).digest('base64');
+}
+
+/**
+ * SQLite backend. Saves are incremental: each table remembers what it last wrote,
+ * so only new, changed or removed rows touch the database.
+ */
+export class SqliteStorageAdapter implements StorageAdapter {
+  readonly backend: StorageBackend = 'sqlite';
+  private db: BetterSqlite3.Database | null = null;
+  // table -> row id -> signature of the row as last written
+  private written = new Map<string, Map<string, string>>();
+
+  constructor(private dbPath: string) {}
+
+  describe(): string {
+    return this.dbPath;
+  }
+
+  private async open(): Promise<BetterSqlite3.Database> {
+    if (this.db) return this.db;
+    // Loaded lazily so JSON-only workspaces never load the native module
+    const { default: Database } = await import('better-sqlite3');
+    await fs.mkdir(path.dirname(this.dbPath), { recursive: true });
+    const db = new Database(this.dbPath);
+    db.pragma('journal_mode = WAL');
+    db.exec(SCHEMA);
+    this.db = db;
+    return db;
+  }
+
+  /**
+   * Bring a table in line with `rows`: upsert rows whose content changed, delete rows that are gone.
+   */
+  private syncTable(db: BetterSqlite3.Database, table: string, rows: Row[]): void {
+    let written = this.written.get(table);
+    if (!written) {
+      written = new Map();
+      for (const r of db.prepare(`SELECT * FROM ${table}`).all() as Row[]) {
+        written.set(String(r.id), rowSignature(r));
+      }
+      this.written.set(table, written);
+    }
+    const seen = new Set<string>();
+    let upsert: BetterSqlite3.Statement | null = null;
+    for (const row of rows) {
+      const id = String(row.id);
+      seen.add(id);
+      const signature = rowSignature(row);
+      if (written.get(id) === signature) continue;
+      if (!upsert) {
+        const cols = Object.keys(row);
+        upsert = db.prepare(`INSERT OR REPLACE INTO ${table} (${cols.join(', ')}) VALUES (${cols.map(c => '@' + c).join(', ')})`);
+      }
+      upsert.run(row);
+      written.set(id, signature);
+    }
+    const remove = db.prepare(`DELETE FROM ${table} WHERE id = ?`);
+    for (const id of Array.from(written.keys())) {
+      if (!seen.has(id)) {
+        remove.run(id);
+        written.delete(id);
+      }
+    }
+  }
+
+  async loadWorkspace(): Promise<WorkspaceSnapshot | null> {
+    const db = await this.open();
+    const meta = new Map((db.prepare('SELECT key, value FROM meta').all() as Row[]).map(r => [String(r.key), JSON.parse(String(r.value))]));
+    if (!meta.has('version')) return null;
+    const links = new Map<string, ThoughtLink[]>();
+    for (const r of db.prepare('SELECT * FROM links ORDER BY from_thought_id, position').all() as Row[]) {
+      const list = links.get(String(r.from_thought_id)) || [];
+      list.push({ toThoughtId: String(r.to_thought_id), type: r.type as ThoughtLinkType, ...(r.reason !== null ? { reason: String(r.reason) } : {}) });
+      links.set(String(r.from_thought_id), list);
+    }
+    const thoughts = new Map<string, unknown[]>();
+    for (const r of db.prepare('SELECT branch_id, id, data FROM thoughts ORDER BY branch_id, position').all() as Row[]) {
+      const thought: Record<string, unknown> = JSON.parse(String(r.data));
+      const linked = links.get(String(r.id));
+      if (linked) thought.linkedThoughts = linked;
+      const list = thoughts.get(String(r.branch_id)) || [];
+      list.push(thought);
+      thoughts.set(String(r.branch_id), list);
+    }
+    const insights = new Map<string, unknown[]>();
+    for (const r of db.prepare('SELECT branch_id, data FROM insights ORDER BY branch_id, position').all() as Row[]) {
+      const list = insights.get(String(r.branch_id)) || [];
+      list.push(JSON.parse(String(r.data)));
+      insights.set(String(r.branch_id), list);
+    }
+    const branches = (db.prepare('SELECT id, data FROM branches ORDER BY position').all() as Row[]).map(r => ({
+      ...JSON.parse(String(r.data)),
+      thoughts: thoughts.get(String(r.id)) || [],
+      insights: insights.get(String(r.id)) || []
+    }));
+    // Archived branches are cold storage: one JSON document each, thoughts included
+    const archivedBranches = (db.prepare('SELECT data FROM archived_branches ORDER BY position').all() as Row[]).map(r => JSON.parse(String(r.data)));
+    const snippets = (db.prepare('SELECT data FROM snippets ORDER BY position').all() as Row[]).map(r => JSON.parse(String(r.data)));
+    const profiles = (db.prepare('SELECT data FROM profiles ORDER BY position').all() as Row[]).map(r => JSON.parse(String(r.data)));
+    return reviveSnapshot({
+      version: meta.get('version'),
+      savedAt: meta.get('savedAt'),
+      activeBranchId: meta.get('activeBranchId'),
+      counters: meta.get('counters'),
+      rejectedLinks: meta.get('rejectedLinks'),
+      thoughtTypes: meta.get('thoughtTypes'),
+      branches,
+      archivedBranches,
+      snippets,
+      profiles
+    });
+  }
+
+  async saveWorkspace(snapshot: WorkspaceSnapshot): Promise<void> {
+    const db = await this.open();
+    const branchRows: Row[] = [];
+    const thoughtRows: Row[] = [];
+    const linkRows: Row[] = [];
+    const insightRows: Row[] = [];
+    snapshot.branches.forEach((branch, bi) => {
+      const { thoughts, insights, ...branchData } = branch;
+      branchRows.push({
+        id: branch.id,
+        position: bi,
+        parent_branch_id: branch.parentBranchId ?? null,
+        state: branch.state,
+        data: JSON.stringify(branchData)
+      });
+      thoughts.forEach((thought, ti) => {
+        const { linkedThoughts, ...thoughtData } = thought;
+        thoughtRows.push({
+          id: thought.id,
+          branch_id: branch.id,
+          position: ti,
+          type: thought.metadata.type,
+          confidence: thought.metadata.confidence,
+          score: thought.score ?? null,
+          timestamp: new Date(thought.timestamp).toISOString(),
+          content: thought.content,
+          data: JSON.stringify(thoughtData)
+        });
+        (linkedThoughts || []).forEach((link, li) => {
+          linkRows.push({
+            id: `${thought.id}#${li}`,
+            from_thought_id: thought.id,
+            position: li,
+            to_thought_id: link.toThoughtId,
+            type: link.type,
+            reason: link.reason ?? null
+          });
+        });
+      });
+      insights.forEach((insight, ii) => {
+        insightRows.push({
+          id: insight.id,
+          branch_id: branch.id,
+          position: ii,
+          type: insight.type,
+          content: insight.content,
+          data: JSON.stringify(insight)
+        });
+      });
+    });
+    const metaRows: Array<[string, unknown]> = [
+      ['version', WORKSPACE_SNAPSHOT_VERSION],
+      ['savedAt', snapshot.savedAt],
+      ['activeBranchId', snapshot.activeBranchId],
+      ['counters', snapshot.counters],
+      ['rejectedLinks', snapshot.rejectedLinks || []],
+      ...(snapshot.thoughtTypes ? [['thoughtTypes', snapshot.thoughtTypes] as [string, unknown]] : [])
+    ];
+    const upsertMeta = db.prepare('INSERT OR REPLACE INTO meta (key, value) VALUES (?, ?)');
+    db.transaction(() => {
+      for (const [key, value] of metaRows) upsertMeta.run(key, JSON.stringify(value));
+      this.syncTable(db, 'branches', branchRows);
+      this.syncTable(db, 'thoughts', thoughtRows);
+      this.syncTable(db, 'links', linkRows);
+      this.syncTable(db, 'insights', insightRows);
+      this.syncTable(db, 'archived_branches', (snapshot.archivedBranches || []).map((b, i) => ({ id: b.id, position: i, data: JSON.stringify(b) })));
+      this.syncTable(db, 'snippets', snapshot.snippets.map((s, i) => ({ id: s.id, position: i, data: JSON.stringify(s) })));
+      this.syncTable(db, 'profiles', snapshot.profiles.map((p, i) => ({ id: p.id, position: i, data: JSON.stringify(p) })));
+    })();
+  }
+
+  async loadTasks(): Promise<TaskItem[]> {
+    const db = await this.open();
+    return (db.prepare('SELECT data FROM tasks ORDER BY position').all() as Row[]).map(r => JSON.parse(String(r.data)));
+  }
+
+  async saveTasks(tasks: TaskItem[]): Promise<void> {
+    const db = await this.open();
+    const rows = tasks.map((t, i) => ({
+      id: t.id,
+      position: i,
+      branch_id: t.branchId,
+      thought_id: t.thoughtId ?? null,
+      status: t.status,
+      data: JSON.stringify(t)
+    }));
+    db.transaction(() => this.syncTable(db, 'tasks', rows))();
+  }
+
+  async loadEmbeddings(): Promise<EmbeddingCacheEntries> {
+    const db = await this.open();
+    const entries: EmbeddingCacheEntries = {};
+    for (const r of db.prepare('SELECT id, embedding FROM embeddings').all() as Row[]) {
+      entries[String(r.id)] = { hash: String(r.id), embedding: JSON.parse(String(r.embedding)) };
+    }
+    return entries;
+  }
+
+  async saveEmbeddings(entries: EmbeddingCacheEntries): Promise<void> {
+    const db = await this.open();
+    const rows = Object.entries(entries).map(([hash, e]) => ({ id: hash, embedding: JSON.stringify(e.embedding) }));
+    db.transaction(() => this.syncTable(db, 'embeddings', rows))();
+  }
+
+  async close(): Promise<void> {
+    this.db?.close();
+    this.db = null;
+    this.written.clear();
+  }
+}
@@ -0,0 +1,114 @@
+// Stance analyzer: local heuristics for whether two similar statements agree or contradict
+
+export type Stance = 'supports' | 'contradicts';
+
+export interface StanceSignal {
+  stance: Stance;
+  evidence: string[];
+}
+
+const NEGATIONS = new Set(['not', 'no', 'never', 'none', 'nothing', 'neither', 'nor', 'cannot', 'without', 'nobody', 'nowhere']);
+
+const STOPWORDS = new Set([
+  'a', 'an', 'the', 'and', 'or', 'but', 'is', 'are', 'was', 'were', 'be', 'been', 'being', 'it', 'its', 'this', 'that',
+  'these', 'those', 'to', 'of', 'in', 'on', 'at', 'for', 'with', 'by', 'from', 'as', 'we', 'our', 'you', 'they', 'i',
+  'do', 'does', 'did', 'has', 'have', 'had', 'will', 'would', 'should', 'can', 'could', 'may', 'might', 'so', 'than', 'then'
+]);
+
+// Values of a yes/no property; a statement using one side disagrees with one using the other
+const BOOLEAN_PAIRS: Array<[string, string]> = [
+  ['true', 'false'], ['enabled', 'disabled'], ['enable', 'disable'], ['valid', 'invalid'],
+  ['correct', 'incorrect'], ['possible', 'impossible'], ['required', 'optional'], ['supported', 'unsupported'],
+  ['available', 'unavailable'], ['safe', 'unsafe'], ['succeeds', 'fails'], ['success', 'failure'], ['pass', 'fail']
+];
+
+const ANTONYM_PAIRS: Array<[string, string]> = [
+  ['increase', 'decrease'], ['increases', 'decreases'], ['more', 'less'], ['higher', 'lower'], ['high', 'low'],
+  ['faster', 'slower'], ['fast', 'slow'], ['better', 'worse'], ['good', 'bad'], ['improves', 'degrades'],
+  ['larger', 'smaller'], ['large', 'small'], ['always', 'rarely'], ['easy', 'hard'], ['simple', 'complex'],
+  ['cheap', 'expensive'], ['accept', 'reject'], ['allow', 'deny'], ['include', 'exclude'], ['before', 'after'],
+  ['add', 'remove'], ['up', 'down'], ['best', 'worst'], ['most', 'least'], ['strong', 'weak'], ['agree', 'disagree']
+];
+
+const OPPOSITES = new Map<string, { opposite: string; kind: 'boolean' | 'antonym' }>();
+for (const [kind, pairs] of [['boolean', BOOLEAN_PAIRS], ['antonym', ANTONYM_PAIRS]] as const) {
+  for (const [a, b] of pairs) {
+    OPPOSITES.set(a, { opposite: b, kind });
+    OPPOSITES.set(b, { opposite: a, kind });
+  }
+}
+
+function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/n't\b/g, ' not')
+    .split(/[^a-z0-9.%]+/)
+    .map(t => t.replace(/^\.+|\.+$/g, ''))
+    .filter(Boolean);
+}
+
+// Numbers keyed by their unit ("200ms", "3 retries") or, failing that, the word before them
+function quantities(tokens: string[]): Map<string, Set<number>> {
+  const found = new Map<string, Set<number>>();
+  tokens.forEach((token, i) => {
+    const match = /^(\d+(?:\.\d+)?)([a-z%]*)$/.exec(token);
+    if (!match) return;
+    const next = tokens[i + 1];
+    const prev = tokens.slice(0, i).reverse().find(t => !STOPWORDS.has(t) && !/^\d/.test(t));
+    const key = match[2] || (next && !STOPWORDS.has(next) && !/^\d/.test(next) ? next : prev);
+    if (!key) return;
+    if (!found.has(key)) found.set(key, new Set());
+    found.get(key)!.add(Number(match[1]));
+  });
+  return found;
+}
+
+/**
+ * Compare two statements that are already known to be about the same topic. Returns
+ * `contradicts` when polarity flips (a negation on one side only, or opposite words such as
+ * increase/decrease or enabled/disabled; two flips cancel out) or when both give different
+ * numbers for the same quantity; otherwise `supports`, with the shared terms as evidence.
+ */
+export function detectStance(a: string, b: string): StanceSignal {
+  const left = tokenize(a);
+  const right = tokenize(b);
+  const leftSet = new Set(left);
+  const rightSet = new Set(right);
+  const evidence: string[] = [];
+  let flips = 0;
+
+  const leftNegations = left.filter(t => NEGATIONS.has(t));
+  const rightNegations = right.filter(t => NEGATIONS.has(t));
+  if (leftNegations.length % 2 !== rightNegations.length % 2) {
+    flips++;
+    const [side, words] = leftNegations.length > rightNegations.length ? ['first', leftNegations] : ['second', rightNegations];
+    evidence.push(`negation: "${words.join(' ')}" only in the ${side} thought`);
+  }
+
+  for (const word of leftSet) {
+    const entry = OPPOSITES.get(word);
+    if (!entry || !rightSet.has(entry.opposite) || leftSet.has(entry.opposite) || rightSet.has(word)) continue;
+    flips++;
+    evidence.push(`${entry.kind === 'boolean' ? 'boolean' : 'antonyms'}: "${word}" vs "${entry.opposite}"`);
+  }
+
+  const leftQuantities = quantities(left);
+  const rightQuantities = quantities(right);
+  let numeric = false;
+  for (const [key, values] of leftQuantities) {
+    const others = rightQuantities.get(key);
+    if (!others || [...values].some(v => others.has(v))) continue;
+    numeric = true;
+    evidence.push(`numbers: ${[...values].join('/')} vs ${[...others].join('/')} ${key}`);
+  }
+
+  if (flips % 2 === 1 || numeric) return { stance: 'contradicts', evidence };
+  const shared = [...leftSet].filter(t => rightSet.has(t) && !STOPWORDS.has(t) && !NEGATIONS.has(t));
+  return {
+    stance: 'supports',
+    evidence: [
+      ...(flips ? [...evidence, 'the opposing cues cancel out'] : []),
+      ...(shared.length ? [`shared terms: ${shared.slice(0, 8).join(', ')}`] : [])
+    ]
+  };
+}
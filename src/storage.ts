@@ -0,0 +1,170 @@
+// StorageAdapter: pluggable persistence for a workspace, plus the JSON-file implementation
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { CodeSnippet, TaskItem, ThoughtBranch, ThoughtData, ThoughtTypeConfig, WorkspaceSnapshot } from './types.js';
+
+export const WORKSPACE_SNAPSHOT_VERSION = 1;
+
+export type StorageBackend = 'json' | 'sqlite';
+export const STORAGE_BACKENDS: StorageBackend[] = ['json', 'sqlite'];
+
+// Persistent embedding cache, keyed by content hash
+export type EmbeddingCacheEntries = Record<string, { embedding: number[]; hash: string }>;
+
+/**
+ * Everything BranchManager persists for one workspace.
+ * Implementations must round-trip each kind of state losslessly.
+ */
+export interface StorageAdapter {
+  readonly backend: StorageBackend;
+  /** Where the data lives, for logs and command output. */
+  describe(): string;
+  /** Returns null when nothing has been saved yet. */
+  loadWorkspace(): Promise<WorkspaceSnapshot | null>;
+  saveWorkspace(snapshot: WorkspaceSnapshot): Promise<void>;
+  loadTasks(): Promise<TaskItem[]>;
+  saveTasks(tasks: TaskItem[]): Promise<void>;
+  loadEmbeddings(): Promise<EmbeddingCacheEntries>;
+  saveEmbeddings(entries: EmbeddingCacheEntries): Promise<void>;
+  close(): Promise<void>;
+}
+
+export interface JsonStoragePaths {
+  storePath: string;
+  taskStorePath: string;
+  embeddingCachePath: string;
+}
+
+/**
+ * JSON-file backend: one file each for the workspace, tasks and embedding cache.
+ * Every save rewrites the whole file atomically (temp file + rename).
+ */
+export class JsonFileStorageAdapter implements StorageAdapter {
+  readonly backend: StorageBackend = 'json';
+
+  constructor(private paths: JsonStoragePaths) {}
+
+  describe(): string {
+    return path.dirname(this.paths.storePath);
+  }
+
+  async loadWorkspace(): Promise<WorkspaceSnapshot | null> {
+    const data = await readJson(this.paths.storePath);
+    // An empty object (e.g. a fresh `{}` file) holds no workspace yet
+    if (!isObject(data) || !Array.isArray(data.branches)) return null;
+    return reviveSnapshot(data);
+  }
+
+  async saveWorkspace(snapshot: WorkspaceSnapshot): Promise<void> {
+    await writeJsonAtomic(this.paths.storePath, JSON.stringify(snapshot, null, 2));
+  }
+
+  async loadTasks(): Promise<TaskItem[]> {
+    const data = await readJson(this.paths.taskStorePath);
+    return isObject(data) && Array.isArray(data.tasks) ? data.tasks : [];
+  }
+
+  async saveTasks(tasks: TaskItem[]): Promise<void> {
+    await writeJsonAtomic(this.paths.taskStorePath, JSON.stringify({ tasks }, null, 2));
+  }
+
+  async loadEmbeddings(): Promise<EmbeddingCacheEntries> {
+    const data = await readJson(this.paths.embeddingCachePath);
+    return isObject(data) ? data as EmbeddingCacheEntries : {};
+  }
+
+  async saveEmbeddings(entries: EmbeddingCacheEntries): Promise<void> {
+    await writeJsonAtomic(this.paths.embeddingCachePath, JSON.stringify(entries));
+  }
+
+  async close(): Promise<void> {}
+}
+
+/**
+ * Copy a workspace's full state from one adapter to another.
+ */
+export async function migrateStorage(source: StorageAdapter, target: StorageAdapter): Promise<{ branches: number; thoughts: number; tasks: number; embeddings: number }> {
+  const snapshot = await source.loadWorkspace();
+  const tasks = await source.loadTasks();
+  const embeddings = await source.loadEmbeddings();
+  if (snapshot) await target.saveWorkspace(snapshot);
+  await target.saveTasks(tasks);
+  await target.saveEmbeddings(embeddings);
+  return {
+    branches: snapshot?.branches.length ?? 0,
+    thoughts: snapshot?.branches.reduce((sum, b) => sum + b.thoughts.length, 0) ?? 0,
+    tasks: tasks.length,
+    embeddings: Object.keys(embeddings).length
+  };
+}
+
+type JsonObject = Record<string, unknown>;
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Objects of an array field; a missing field or anything else in it is skipped
+function objects(value: unknown): JsonObject[] {
+  return Array.isArray(value) ? value.filter(isObject) : [];
+}
+
+/**
+ * Normalize a parsed snapshot: fill defaults and restore Date fields that JSON turned into strings.
+ */
+export function reviveSnapshot(value: unknown): WorkspaceSnapshot {
+  const data = isObject(value) ? value : {};
+  const counters = isObject(data.counters) ? data.counters : {};
+  const count = (n: unknown) => (typeof n === 'number' ? n : 0);
+  const list = (field: unknown) => (Array.isArray(field) ? field : []);
+  const reviveBranch = (b: JsonObject): ThoughtBranch => ({
+    ...(b as unknown as ThoughtBranch),
+    thoughts: objects(b.thoughts).map(t => ({ ...(t as unknown as ThoughtData), timestamp: new Date(t.timestamp as string) })),
+    insights: list(b.insights),
+    crossRefs: list(b.crossRefs)
+  });
+  return {
+    version: typeof data.version === 'number' ? data.version : WORKSPACE_SNAPSHOT_VERSION,
+    savedAt: typeof data.savedAt === 'string' ? data.savedAt : new Date().toISOString(),
+    activeBranchId: typeof data.activeBranchId === 'string' ? data.activeBranchId : null,
+    counters: {
+      thought: count(counters.thought),
+      insight: count(counters.insight),
+      crossRef: count(counters.crossRef),
+      snippet: count(counters.snippet)
+    },
+    branches: objects(data.branches).map(reviveBranch),
+    archivedBranches: objects(data.archivedBranches).map(reviveBranch),
+    rejectedLinks: list(data.rejectedLinks),
+    ...(isObject(data.thoughtTypes) ? { thoughtTypes: data.thoughtTypes as unknown as ThoughtTypeConfig } : {}),
+    snippets: objects(data.snippets).map(sn => ({ ...(sn as unknown as CodeSnippet), created: new Date(sn.created as string) })),
+    profiles: list(data.profiles)
+  };
+}
+
+// Whether a filesystem error means the file or directory does not exist
+export function isNotFound(err: unknown): boolean {
+  return isObject(err) && err.code === 'ENOENT';
+}
+
+// Read and parse a JSON file; missing or blank files yield null
+async function readJson(filePath: string): Promise<unknown> {
+  let raw: string;
+  try {
+    raw = await fs.readFile(filePath, 'utf8');
+  } catch (e) {
+    if (isNotFound(e)) return null;
+    throw e;
+  }
+  return raw.trim() ? JSON.parse(raw) : null;
+}
+
+// Unique temp suffix so concurrent writers never share a temp file
+let tmpCounter = 0;
+
+async function writeJsonAtomic(filePath: string, json: string): Promise<void> {
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  const tmpPath = `${filePath}.${process.pid}.${++tmpCounter}.tmp`;
+  await fs.writeFile(tmpPath, json, 'utf8');
+  await fs.rename(tmpPath, filePath);
+}
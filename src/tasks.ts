@@ -0,0 +1,12 @@
+// Tasks: the task-line syntax shared by task extraction and keyphrase extraction
+
+// Task lines such as `TODO(alice): write docs by 2025-01-31`; copy it with new RegExp before matching
+export const TASK_PATTERN = /(?<type>TODO|FIXME|ACTION|TASK)(?:\((?<assignee>\w+)\))?:?\s*(?<description>.+?)(?:\s+by\s+(?<due>\d{4}-\d{2}-\d{2}))?(?=\n|$)/gi;
+
+// Text with each task line reduced to its description: the marker, assignee and due date go
+export function stripTaskMetadata(text: string): string {
+  return text.replace(new RegExp(TASK_PATTERN), (...args) => {
+    const groups = args[args.length - 1] as Record<string, string | undefined>;
+    return groups.description ?? '';
+  });
+}
@@ -0,0 +1,121 @@
+// Thought types: the registry of canonical thought types, their aliases and the fields each requires
+import { ThoughtTypeConfig, ThoughtTypeDefinition, TypeStrictness } from './types.js';
+
+export const TYPE_STRICTNESS: TypeStrictness[] = ['strict', 'warn', 'off'];
+
+export const DEFAULT_THOUGHT_TYPES: ThoughtTypeDefinition[] = [
+  { name: 'thought', aliases: [], description: 'General reasoning step', requiredFields: [] },
+  { name: 'note', aliases: ['notes'], description: 'Imported or free-form note', requiredFields: [] },
+  { name: 'observation', aliases: ['obs', 'finding'], description: 'Something seen or measured', requiredFields: [] },
+  { name: 'question', aliases: ['q', 'open-question'], description: 'Open question to investigate', requiredFields: [] },
+  { name: 'idea', aliases: ['proposal'], description: 'Possible approach worth exploring', requiredFields: [] },
+  {
+    name: 'hypothesis', aliases: ['hyp', 'assumption', 'conjecture'],
+    description: 'Tentative explanation to test', requiredFields: [], defaultConfidence: 0.5
+  },
+  {
+    name: 'claim', aliases: ['assertion'],
+    description: 'Statement presented as true; cite what backs it', requiredFields: ['evidence']
+  },
+  { name: 'evidence', aliases: ['data', 'source'], description: 'Fact or result that supports or refutes a claim', requiredFields: [] },
+  {
+    name: 'risk', aliases: ['concern', 'threat'],
+    description: 'Something that could go wrong; say how to handle it', requiredFields: ['mitigation'], defaultConfidence: 0.7
+  },
+  {
+    name: 'decision', aliases: ['choice', 'resolution'],
+    description: 'Choice that was made; record why', requiredFields: ['rationale']
+  },
+  { name: 'conclusion', aliases: ['summary', 'result'], description: 'Outcome of a line of reasoning', requiredFields: [] }
+];
+
+const key = (value: string) => value.trim().toLowerCase();
+
+/**
+ * Check a definition supplied by a caller and fill in the optional parts.
+ */
+export function validateThoughtType(input: Partial<ThoughtTypeDefinition>): ThoughtTypeDefinition {
+  if (typeof input.name !== 'string' || !input.name.trim()) throw new Error('Thought type name is required');
+  const strings = (field: 'aliases' | 'requiredFields') => {
+    const value = input[field] ?? [];
+    if (!Array.isArray(value) || value.some(v => typeof v !== 'string' || !v.trim())) {
+      throw new Error(`${field} must be an array of non-empty strings`);
+    }
+    return value.map(v => v.trim());
+  };
+  const definition: ThoughtTypeDefinition = {
+    name: key(input.name),
+    aliases: Array.from(new Set(strings('aliases').map(key))),
+    description: input.description?.trim() || '',
+    requiredFields: strings('requiredFields')
+  };
+  if (input.defaultConfidence !== undefined) {
+    if (typeof input.defaultConfidence !== 'number' || input.defaultConfidence < 0 || input.defaultConfidence > 1) {
+      throw new Error(`defaultConfidence must be a number between 0 and 1, got ${input.defaultConfidence}`);
+    }
+    definition.defaultConfidence = input.defaultConfidence;
+  }
+  return definition;
+}
+
+/**
+ * Canonical thought types keyed by name and alias. Lookups ignore case and surrounding
+ * whitespace, so `Hypothesis`, `hyp` and `assumption` all resolve to `hypothesis`.
+ */
+export class ThoughtTypeRegistry {
+  private types = new Map<string, ThoughtTypeDefinition>();
+  private lookup = new Map<string, ThoughtTypeDefinition>();
+  public strictness: TypeStrictness;
+
+  constructor(config?: ThoughtTypeConfig) {
+    this.strictness = config?.strictness ?? 'warn';
+    for (const definition of config?.types ?? DEFAULT_THOUGHT_TYPES) this.index(definition);
+  }
+
+  private index(definition: ThoughtTypeDefinition): void {
+    this.types.set(definition.name, definition);
+    // Definitions loaded from a snapshot skipped validation, so their names may not be normalized
+    this.lookup.set(key(definition.name), definition);
+    for (const alias of definition.aliases) this.lookup.set(key(alias), definition);
+  }
+
+  public resolve(type: string): ThoughtTypeDefinition | undefined {
+    return this.lookup.get(key(type));
+  }
+
+  // Canonical name of a type, or the type unchanged when the registry doesn't know it
+  public canonical(type: string): string {
+    return this.resolve(type)?.name ?? type;
+  }
+
+  public list(): ThoughtTypeDefinition[] {
+    return Array.from(this.types.values());
+  }
+
+  /**
+   * Add a type or replace the one with the same name. An alias may not shadow another type's
+   * name or alias.
+   */
+  public define(input: Partial<ThoughtTypeDefinition>): ThoughtTypeDefinition {
+    const definition = validateThoughtType(input);
+    for (const alias of [definition.name, ...definition.aliases]) {
+      const owner = this.lookup.get(alias);
+      if (owner && owner.name !== definition.name) {
+        throw new Error(`${alias} already names thought type ${owner.name}`);
+      }
+    }
+    this.types.set(definition.name, definition);
+    this.lookup = new Map();
+    for (const type of this.types.values()) this.index(type);
+    return definition;
+  }
+
+  // Required fields of `definition` that are missing or blank in `fields`
+  public missingFields(definition: ThoughtTypeDefinition, fields: Record<string, string> = {}): string[] {
+    return definition.requiredFields.filter(field => typeof fields[field] !== 'string' || !fields[field].trim());
+  }
+
+  public toConfig(): ThoughtTypeConfig {
+    return { strictness: this.strictness, types: this.list() };
+  }
+}
@@ -20,10 +20,28 @@ export interface ThoughtData {
     type: string;
     confidence: number;
     keyPoints: string[];
+    fields?: Record<string, string>; // type-specific fields, such as `evidence` for a claim
+    sentiment?: ThoughtSentiment; // derived from the content on every change
   };
   linkedThoughts?: ThoughtLink[];
   score?: number;
   crossRefs?: Array<{ toThoughtId: string; score: number; type: string }>;
+  forkedFrom?: { branchId: string; thoughtId: string }; // set on thoughts copied by fork-branch
+  revisions?: ThoughtRevision[]; // oldest first; absent until the thought is edited
+  belief?: number; // 0-1, confidence after propagating supports/contradicts links
+  suggestedKeyPoints?: Keyphrase[]; // keyphrases extracted from the content, best first
+}
+
+// One edit of a thought: the version it replaced, plus who made the edit, when and why
+export interface ThoughtRevision {
+  revision: number; // 1 for the first edit
+  previous: {
+    content: string;
+    metadata: ThoughtData['metadata'];
+  };
+  author: string;
+  timestamp: string; // ISO date string
+  reason?: string;
 }
 
 export interface Insight {
@@ -38,6 +56,23 @@ export interface Insight {
     pattern?: string;
     data?: string[];
   };
+  analyzer?: string; // ID of the insight analyzer that maintains this insight
+  analyzerKey?: string; // the analyzer's key for it; reruns update the insight with the same key
+  status?: InsightStatus; // curation verdict; absent until someone accepts or rejects it
+  pinned?: boolean; // always listed by insights, history and summaries
+  edited?: boolean; // content or type set by hand; analyzer reruns leave them alone
+  feedback?: InsightFeedback[];
+}
+
+export type InsightStatus = 'accepted' | 'rejected';
+
+export type InsightFeedbackAction = 'accept' | 'reject' | 'pin' | 'unpin' | 'edit';
+
+export interface InsightFeedback {
+  action: InsightFeedbackAction;
+  actor: string;
+  timestamp: string; // ISO date string
+  reason?: string;
 }
 
 export interface CrossReference {
@@ -55,10 +90,21 @@ export interface CrossReference {
   relatedInsights?: string[];
 }
 
+// One lifecycle transition of a branch, with who made it and why
+export interface BranchStateChange {
+  from: BranchState;
+  to: BranchState;
+  reason: string;
+  actor: string;
+  timestamp: string; // ISO date string
+}
+
 export interface ThoughtBranch {
   id: string;
   parentBranchId?: string;
   state: BranchState;
+  stateHistory?: BranchStateChange[];
+  archived?: { at: string; actor: string; reason?: string }; // set while the branch is archived
   priority: number;
   confidence: number;
   thoughts: ThoughtData[];
@@ -116,6 +162,8 @@ export interface VisualizationNode {
   taskStatus?: string;
   taskPriority?: string | number;
   nextAction?: boolean;
+  belief?: number;
+  beliefColor?: string; // set with colorBy 'belief': red (0) through green (1)
 }
 
 export interface VisualizationEdge {
@@ -136,6 +184,9 @@ export interface VisualizationOptions {
   progressiveLoading?: boolean;
   plugins?: string[];
   viewer?: string;
+  states?: BranchState[]; // only include branches in these states
+  profileId?: string; // only include thoughts of this profile (and the branches holding them)
+  colorBy?: 'cluster' | 'belief';
 }
 
 export interface VisualizationData {
@@ -155,12 +206,12 @@ export interface BranchingThoughtInput {
   content: string;
   branchId?: string;
   parentBranchId?: string;
-  type: string;
+  type?: string; // defaults to the profile's defaultThoughtType, else 'thought'
   profileId?: string;
   thoughtCrossRefs?: ThoughtLink[];
   confidence?: number;
   keyPoints?: string[];
-  relatedInsights?: string[];
+  fields?: Record<string, string>; // required by some thought types, see ThoughtTypeDefinition
   crossRefs?: Array<{
     toBranch: string;
     type: CrossRefType;
@@ -174,11 +225,355 @@ export interface BranchingThoughtInput {
   reviewContent?: string;
   reviewType?: string;
   skipExtractTasks?: boolean;
+  force?: boolean; // allow adding to a completed or dead-end branch
+}
+
+// One entry of the thought type registry
+export interface ThoughtTypeDefinition {
+  name: string; // canonical name stored in metadata.type
+  aliases: string[]; // other spellings that normalize to `name` (matching ignores case)
+  description: string;
+  requiredFields: string[]; // keys that must be present in the thought's `fields`
+  defaultConfidence?: number; // used when neither the thought nor its profile sets one
+}
+
+// How add-thought treats types the registry does not know: reject, accept with a warning, or accept
+export type TypeStrictness = 'strict' | 'warn' | 'off';
+
+export interface ThoughtTypeConfig {
+  strictness: TypeStrictness;
+  types: ThoughtTypeDefinition[];
+}
+
+// Weights of the terms that make up a thought's score
+export interface ScoringWeights {
+  directSimilarity: number; // sum of direct cross-ref similarities
+  multiHopSimilarity: number; // sum of multi-hop cross-ref similarities
+  degree: number; // number of cross-refs
+  recency: number;
+  diversity: number; // spread of cross-refs over branches
+  confidence: number;
+  keyPoints: number; // number of key points
+}
+
+// Behavior of thoughts that belong to a profile; every setting is optional
+export interface ProfileSettings {
+  defaultThoughtType?: string; // used when add-thought gives no type
+  defaultConfidence?: number; // 0-1, used when add-thought gives no confidence
+  allowedThoughtTypes?: string[]; // add-thought and edit-thought reject other types
+  crossRefThreshold?: number; // similarity above which the profile's thoughts get cross-refs
+  scoringWeights?: Partial<ScoringWeights>; // overrides of the default weights
+  analyzers?: Record<string, boolean>; // insight analyzers switched on or off for the profile's thoughts
 }
 
 // Profile for categorizing thoughts
 export interface Profile {
   id: string;
   name: string;
-  settings: Record<string, any>;
-}
\ No newline at end of file
+  settings: ProfileSettings;
+}
+
+// Serialized workspace state, written to and loaded from persistent storage
+export interface WorkspaceSnapshot {
+  version: number;
+  savedAt: string;
+  activeBranchId: string | null;
+  counters: {
+    thought: number;
+    insight: number;
+    crossRef: number;
+    snippet: number;
+  };
+  branches: ThoughtBranch[];
+  archivedBranches?: ThoughtBranch[]; // out of the working set; absent in older snapshots
+  rejectedLinks?: RejectedLink[]; // suggested links that must not be suggested again
+  thoughtTypes?: ThoughtTypeConfig; // absent in older snapshots: the built-in registry applies
+  snippets: CodeSnippet[];
+  profiles: Profile[];
+}
+
+// What undo (or redo) sets back: the workspace and task store parts one command changed, as
+// serialized JSON keyed by part (`branch:<id>`, `task:<id>`, `counters`...); null removes a part
+export interface UndoState {
+  parts: Record<string, string | null>;
+}
+
+// One mutating command recorded in the append-only event journal
+export interface JournalEntry {
+  timestamp: string; // ISO date string
+  actor: string;
+  command: string;
+  payload: Record<string, any>;
+}
+
+// Lossless JSON export of branches, produced by `export` (format json) and accepted by `import`
+export interface WorkspaceBundle {
+  format: 'branch-thinking-bundle';
+  version: number;
+  exportedAt: string;
+  branches: ThoughtBranch[];
+  tasks: TaskItem[];
+  snippets: CodeSnippet[];
+  profiles: Profile[];
+}
+
+// Outcome of an import: what was created, how IDs were remapped, and what could not be resolved
+export interface ImportReport {
+  format: 'markdown' | 'json';
+  branchesCreated: string[];
+  thoughtsCreated: number;
+  linksCreated: number;
+  idMap: {
+    branches: Record<string, string>;
+    thoughts: Record<string, string>;
+  };
+  unresolvedLinks: Array<{ fromThoughtId: string; target: string }>;
+  warnings: string[];
+}
+
+// How merge-branches treats a source thought that nearly duplicates a target thought
+export type MergeStrategy = 'keep' | 'merge' | 'drop';
+
+export interface MergeReport {
+  sourceBranchId: string;
+  targetBranchId: string;
+  strategy: MergeStrategy;
+  dryRun: boolean;
+  threshold: number;
+  thoughtsMoved: string[];
+  duplicates: Array<{
+    sourceThoughtId: string;
+    targetThoughtId: string;
+    similarity: number;
+    action: 'kept' | 'merged' | 'dropped';
+  }>;
+  // Number of references to the source branch (or to removed thoughts) that are rewritten
+  rewritten: {
+    thoughtLinks: number;
+    insights: number;
+    crossRefs: number;
+    childBranches: number;
+    snippets: number;
+    tasks: number;
+  };
+  tasksDropped: string[];
+}
+
+// Semantic comparison of two branches, produced by diff-branches
+export interface BranchDiff {
+  left: string;
+  right: string;
+  threshold: number;
+  // Thought pairs whose embeddings are at least `threshold` similar
+  shared: Array<{ left: string; right: string; similarity: number; leftContent: string; rightContent: string }>;
+  onlyLeft: Array<{ id: string; content: string }>;
+  onlyRight: Array<{ id: string; content: string }>;
+  // `contradicts` links between a thought of one branch and a thought of the other
+  contradictions: Array<{ from: string; to: string; fromBranch: string; reason?: string }>;
+  keyPoints: { shared: string[]; onlyLeft: string[]; onlyRight: string[] };
+  insights: { shared: string[]; onlyLeft: string[]; onlyRight: string[] };
+}
+
+// Aggregates over a branch and all of its descendants
+export interface BranchRollup {
+  branches: number;
+  thoughts: number;
+  openTasks: number; // open or in progress
+  averageScore: number | null; // mean thought score, null when the subtree has no thoughts
+  states: Partial<Record<BranchState, number>>;
+}
+
+export interface BranchTreeNode {
+  branchId: string;
+  state: BranchState;
+  thoughts: number; // this branch only
+  rollup: BranchRollup;
+  children: BranchTreeNode[];
+}
+
+// Derived belief of one thought, from its own confidence and the links pointing at it
+export interface ThoughtBelief {
+  thoughtId: string;
+  branchId: string;
+  confidence: number;
+  belief: number;
+  supporters: string[]; // thoughts with a `supports` link to this one
+  contradictors: string[]; // thoughts with a `contradicts` link to this one
+}
+
+export interface BeliefReport {
+  iterations: number;
+  converged: boolean; // false when the iteration cap was hit before beliefs settled
+  beliefs: ThoughtBelief[];
+}
+
+// A supports/contradicts link proposed by the stance analyzer for two similar thoughts
+export interface LinkSuggestion {
+  fromThoughtId: string; // the later thought
+  toThoughtId: string;
+  type: 'supports' | 'contradicts';
+  similarity: number;
+  evidence: string[];
+}
+
+// A thought pair the user turned down in reject-link; it is matched in either direction
+export interface RejectedLink {
+  fromThoughtId: string;
+  toThoughtId: string;
+  type: 'supports' | 'contradicts';
+  actor: string;
+  timestamp: string; // ISO date string
+  reason?: string;
+}
+
+// Outgoing links of a thought and the links pointing at it, from the working set and archive
+export interface ThoughtLinks {
+  thoughtId: string;
+  outgoing: Array<ThoughtLink & { dangling?: boolean }>; // dangling: the target no longer exists
+  backlinks: Array<{ fromThoughtId: string; branchId: string; type: ThoughtLinkType; reason?: string }>;
+}
+
+// References that point at thoughts, branches or tasks that no longer exist
+export interface IntegrityReport {
+  repaired: boolean;
+  danglingLinks: Array<{ fromThoughtId: string; toThoughtId: string; type: ThoughtLinkType }>;
+  danglingSimilarityRefs: Array<{ fromThoughtId: string; toThoughtId: string }>; // thought-level crossRefs
+  danglingCrossRefs: Array<{ branchId: string; crossRefId: string; toBranch: string }>;
+  orphanedTasks: Array<{ taskId: string; thoughtId: string; status: TaskItem['status'] }>;
+}
+
+// One thought matched by the query command
+export interface ThoughtQueryHit {
+  id: string;
+  branchId: string;
+  type: string;
+  content: string;
+  confidence: number;
+  score?: number;
+  belief?: number;
+  keyPoints: string[];
+  profileId?: string;
+  timestamp: string; // ISO date string
+  similarity?: number; // only with a similar: term
+}
+
+// One page of query results
+export interface QueryResult {
+  query: string;
+  total: number; // matches before pagination
+  offset: number;
+  limit: number;
+  nextOffset: number | null; // null on the last page
+  results: ThoughtQueryHit[];
+}
+
+// A phrase extracted from thought content with its TF-IDF-weighted RAKE score
+export interface Keyphrase {
+  phrase: string;
+  score: number;
+}
+
+export interface Topic {
+  topic: string;
+  weight: number; // summed keyphrase scores
+  share: number; // 0-1, weight over the weight of all topics of the branch
+}
+
+export interface BranchTopics {
+  branchId: string;
+  thoughts: number;
+  topics: Topic[];
+}
+
+export interface TopicComparison {
+  leftBranchId: string;
+  rightBranchId: string;
+  similarity: number; // cosine similarity of the two topic distributions
+  sharedTopics: string[];
+}
+
+export interface TopicReport {
+  branches: BranchTopics[];
+  comparisons: TopicComparison[]; // most similar pairs first
+}
+
+// One cross-branch finding of synthesize
+export interface SynthesisFinding {
+  kind: 'convergence' | 'answer' | 'contradiction';
+  branchIds: string[];
+  thoughtIds: string[]; // for an answer: the question first, then the answer
+  similarity?: number; // embedding similarity of the pair (the weakest pair of a convergence); absent for explicit links
+  evidence: string[];
+  insightIds: string[]; // the connection insight of the finding in each branch involved
+}
+
+export interface SynthesisReport {
+  branchIds: string[];
+  findings: SynthesisFinding[];
+  insights: { created: number; updated: number; removed: number };
+}
+
+export type SentimentLabel = 'positive' | 'negative' | 'neutral' | 'mixed';
+export type SentimentTrend = 'improving' | 'declining' | 'steady';
+
+// Tone of a thought, scored from a sentiment lexicon
+export interface ThoughtSentiment {
+  score: number; // -1 (negative) to 1 (positive)
+  label: SentimentLabel; // mixed: near zero, but with positive and negative terms
+  terms: string[]; // lexicon hits with their modifiers and contribution, e.g. "not good (-1)"
+}
+
+export interface SentimentPoint {
+  thoughtId: string;
+  timestamp: string; // ISO date string
+  type: string;
+  score: number;
+  label: SentimentLabel;
+  rolling: number; // average score over the last `window` thoughts up to this one
+}
+
+// How the tone of a branch evolved, oldest thought first
+export interface SentimentTimeline {
+  branchId: string;
+  window: number;
+  points: SentimentPoint[];
+  average: number;
+  label: SentimentLabel;
+  trend: SentimentTrend; // second half of the branch against the first
+  delta: number;
+  shifts: Array<{ thoughtId: string; from: SentimentLabel; to: SentimentLabel }>; // where the rolling tone changed
+  byType: Record<string, { count: number; average: number }>;
+}
+
+// Everything delete-branch removes or rewrites; with dryRun nothing is changed
+export interface DeleteReport {
+  branchId: string;
+  dryRun: boolean;
+  archived: boolean; // the branch was archived rather than in the working set
+  thoughts: string[];
+  embeddings: number; // in-memory thought embeddings dropped
+  cachedEmbeddings: number; // persisted embedding cache entries no other thought uses
+  crossRefsRemoved: number; // branch-level references plus thought-level similarity refs
+  linksRemoved: number; // linkedThoughts pointing into the branch
+  insightsUpdated: number;
+  tasks: { action: 'close' | 'delete'; ids: string[] };
+  snippetsUntagged: string[];
+  // Child branches move up to the deleted branch's parent (or become roots)
+  childBranches: string[];
+  newParentBranchId: string | null;
+  // Other branches whose thoughts, insights or references change
+  branchesTouched: string[];
+}
+
+// Everything delete-thought removes or rewrites; with dryRun nothing is changed
+export interface DeleteThoughtReport {
+  thoughtId: string;
+  branchId: string;
+  dryRun: boolean;
+  crossRefsRemoved: number;
+  linksRemoved: number;
+  insightsUpdated: number;
+  insightsRemoved: string[]; // insights generated from this thought alone
+  tasks: { action: 'close' | 'delete'; ids: string[] };
+  branchesTouched: string[];
+}
@@ -0,0 +1,73 @@
+// UndoStack: bounded per-session undo/redo history of workspace changes
+
+export const DEFAULT_UNDO_LIMIT = 25;
+
+export interface UndoEntry<T> {
+  command: string;
+  timestamp: string; // ISO date string of the command the entry belongs to
+  state: T; // what to restore: the state before the command (undo) or after it (redo)
+}
+
+/**
+ * Every mutating command records the state it started from; undo restores it and keeps the
+ * state it replaced so redo can bring it back. States may be partial (only what the command
+ * changed), so the replaced state comes from `counterpart`. Running a new command clears the redo side.
+ * Only the most recent `limit` commands can be undone.
+ */
+export class UndoStack<T> {
+  private undoEntries: UndoEntry<T>[] = [];
+  private redoEntries: UndoEntry<T>[] = [];
+
+  constructor(private readonly limit: number = DEFAULT_UNDO_LIMIT) {}
+
+  record(command: string, before: T): void {
+    this.undoEntries.push({ command, timestamp: new Date().toISOString(), state: before });
+    if (this.undoEntries.length > this.limit) this.undoEntries.shift();
+    this.redoEntries = [];
+  }
+
+  canUndo(): boolean {
+    return this.undoEntries.length > 0;
+  }
+
+  canRedo(): boolean {
+    return this.redoEntries.length > 0;
+  }
+
+  /**
+   * Take the latest command off the undo side. `counterpart` gives the current state that
+   * restoring the entry's state replaces, kept so the command can be redone. Returns the
+   * entry whose state should be restored.
+   */
+  undo(counterpart: (state: T) => T): UndoEntry<T> {
+    const entry = this.undoEntries.pop();
+    if (!entry) throw new Error('Nothing to undo');
+    this.redoEntries.push({ ...entry, state: counterpart(entry.state) });
+    return entry;
+  }
+
+  /**
+   * Take the latest undone command off the redo side; the counterpart of undo.
+   */
+  redo(counterpart: (state: T) => T): UndoEntry<T> {
+    const entry = this.redoEntries.pop();
+    if (!entry) throw new Error('Nothing to redo');
+    this.undoEntries.push({ ...entry, state: counterpart(entry.state) });
+    return entry;
+  }
+
+  clear(): void {
+    this.undoEntries = [];
+    this.redoEntries = [];
+  }
+
+  /**
+   * Commands that can be undone and redone, most recent first.
+   */
+  describe(): { undo: string[]; redo: string[] } {
+    return {
+      undo: this.undoEntries.map(e => e.command).reverse(),
+      redo: this.redoEntries.map(e => e.command).reverse()
+    };
+  }
+}
@@ -0,0 +1,167 @@
+// WorkspaceManager: named, isolated workspaces under a configurable root directory
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { StorageAdapter, StorageBackend, STORAGE_BACKENDS, JsonFileStorageAdapter, isNotFound } from './storage.js';
+import { SqliteStorageAdapter } from './sqliteStorage.js';
+
+/**
+ * Root directory holding all workspaces. Override with MCP_STORAGE_PATH.
+ */
+export const DEFAULT_WORKSPACE_ROOT = process.env.MCP_STORAGE_PATH
+  ? path.resolve(process.env.MCP_STORAGE_PATH)
+  : path.join(os.homedir(), '.branch-thinking');
+export const DEFAULT_WORKSPACE = 'default';
+/**
+ * Storage backend for newly created workspaces. Override with MCP_STORAGE_BACKEND (json | sqlite).
+ */
+export const DEFAULT_STORAGE_BACKEND: StorageBackend = process.env.MCP_STORAGE_BACKEND === 'sqlite' ? 'sqlite' : 'json';
+
+const WORKSPACE_NAME_PATTERN = /^[A-Za-z0-9][A-Za-z0-9._-]{0,63}$/;
+
+// Files owned by one workspace
+export interface WorkspacePaths {
+  name: string;
+  dir: string;
+  storePath: string;
+  taskStorePath: string;
+  embeddingCachePath: string;
+  journalPath: string;
+  sqlitePath: string;
+  configPath: string;
+}
+
+export class WorkspaceManager {
+  constructor(private root: string = DEFAULT_WORKSPACE_ROOT) {}
+
+  getRoot(): string {
+    return this.root;
+  }
+
+  /**
+   * Resolve the file layout of a workspace. Throws on names that could escape the root.
+   */
+  paths(name: string): WorkspacePaths {
+    if (!WORKSPACE_NAME_PATTERN.test(name)) {
+      throw new Error(`Invalid workspace name: ${name} (use letters, digits, '.', '_' or '-')`);
+    }
+    const dir = path.join(this.root, 'workspaces', name);
+    return {
+      name,
+      dir,
+      storePath: path.join(dir, 'knowledge.json'),
+      taskStorePath: path.join(dir, 'tasks.json'),
+      embeddingCachePath: path.join(dir, 'embeddings-cache.json'),
+      journalPath: path.join(dir, 'journal.jsonl'),
+      sqlitePath: path.join(dir, 'knowledge.db'),
+      configPath: path.join(dir, 'workspace.json')
+    };
+  }
+
+  async list(): Promise<string[]> {
+    try {
+      const entries = await fs.readdir(path.join(this.root, 'workspaces'), { withFileTypes: true });
+      return entries.filter(e => e.isDirectory() && WORKSPACE_NAME_PATTERN.test(e.name)).map(e => e.name).sort();
+    } catch (e) {
+      if (isNotFound(e)) return [];
+      throw e;
+    }
+  }
+
+  async exists(name: string): Promise<boolean> {
+    try {
+      return (await fs.stat(this.paths(name).dir)).isDirectory();
+    } catch (e) {
+      if (isNotFound(e)) return false;
+      throw e;
+    }
+  }
+
+  /**
+   * Create a new, empty workspace directory using the given storage backend.
+   */
+  async create(name: string, backend: StorageBackend = DEFAULT_STORAGE_BACKEND): Promise<WorkspacePaths> {
+    const paths = this.paths(name);
+    if (await this.exists(name)) {
+      throw new Error(`Workspace already exists: ${name}`);
+    }
+    await fs.mkdir(paths.dir, { recursive: true });
+    await this.setBackend(name, backend);
+    return paths;
+  }
+
+  /**
+   * The storage backend a workspace uses. Without a config, a workspace that already has JSON
+   * files predates backends and stays on JSON; an empty one gets the default backend.
+   */
+  async getBackend(name: string): Promise<StorageBackend> {
+    const paths = this.paths(name);
+    try {
+      const raw = await fs.readFile(paths.configPath, 'utf8');
+      const backend = JSON.parse(raw).storage;
+      return STORAGE_BACKENDS.includes(backend) ? backend : 'json';
+    } catch (e) {
+      if (!isNotFound(e)) {
+        console.error(`[WORKSPACE] Failed to read config of workspace '${name}':`, e);
+        return 'json';
+      }
+    }
+    try {
+      await fs.access(paths.storePath);
+      return 'json';
+    } catch {
+      return DEFAULT_STORAGE_BACKEND;
+    }
+  }
+
+  async setBackend(name: string, backend: StorageBackend): Promise<void> {
+    const paths = this.paths(name);
+    await fs.mkdir(paths.dir, { recursive: true });
+    await fs.writeFile(paths.configPath, JSON.stringify({ storage: backend }, null, 2), 'utf8');
+  }
+
+  /**
+   * Build the storage adapter for a workspace, using its configured backend unless one is given.
+   */
+  async createAdapter(name: string, backend?: StorageBackend): Promise<StorageAdapter> {
+    const paths = this.paths(name);
+    const kind = backend ?? await this.getBackend(name);
+    return kind === 'sqlite'
+      ? new SqliteStorageAdapter(paths.sqlitePath)
+      : new JsonFileStorageAdapter(paths);
+  }
+
+  /**
+   * Ensure a workspace directory exists and return its paths.
+   */
+  async open(name: string): Promise<WorkspacePaths> {
+    const paths = this.paths(name);
+    await fs.mkdir(paths.dir, { recursive: true });
+    // Pin the backend on first open so later MCP_STORAGE_BACKEND changes don't orphan the data
+    try {
+      await fs.access(paths.configPath);
+    } catch {
+      await this.setBackend(name, await this.getBackend(name));
+    }
+    return paths;
+  }
+
+  /**
+   * The workspace last switched to, so restarts resume where they left off.
+   */
+  async getCurrent(): Promise<string> {
+    try {
+      const raw = await fs.readFile(path.join(this.root, 'workspaces.json'), 'utf8');
+      const current = JSON.parse(raw).current;
+      return typeof current === 'string' && WORKSPACE_NAME_PATTERN.test(current) ? current : DEFAULT_WORKSPACE;
+    } catch (e) {
+      if (!isNotFound(e)) console.error(`[WORKSPACE] Failed to read current workspace under ${this.root}:`, e);
+      return DEFAULT_WORKSPACE;
+    }
+  }
+
+  async setCurrent(name: string): Promise<void> {
+    await fs.mkdir(this.root, { recursive: true });
+    await fs.writeFile(path.join(this.root, 'workspaces.json'), JSON.stringify({ current: name }, null, 2), 'utf8');
+  }
+}
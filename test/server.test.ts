@@ -0,0 +1,105 @@
+// Server history: journal replay and undo/redo must reproduce the live workspace
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js';
+
+const SERVER_PATH = fileURLToPath(new URL('../src/index.js', import.meta.url));
+
+// The built server over stdio, with its workspaces under `root`
+async function startServer(root: string): Promise<Client> {
+  const env = Object.fromEntries(Object.entries(process.env).filter((e): e is [string, string] => e[1] !== undefined));
+  const transport = new StdioClientTransport({
+    command: process.execPath,
+    args: [SERVER_PATH],
+    env: { ...env, MCP_STORAGE_PATH: root },
+    stderr: 'ignore'
+  });
+  const client = new Client({ name: 'branch-thinking-test', version: '1.0.0' });
+  await client.connect(transport);
+  return client;
+}
+
+async function run(client: Client, command: Record<string, unknown>): Promise<string> {
+  const result = await client.callTool({ name: 'branch-thinking', arguments: { command } });
+  return (result.content as Array<{ text: string }>).map(c => c.text).join('\n');
+}
+
+// The workspace as a JSON bundle, without the values that depend on when it is read
+async function exportWorkspace(client: Client): Promise<unknown> {
+  const { files } = JSON.parse(await run(client, { type: 'export', format: 'json', inline: true }));
+  const { exportedAt, ...bundle } = JSON.parse(files[0].content);
+  return JSON.parse(JSON.stringify(bundle, (key, value) => (key === 'priority' ? undefined : value)));
+}
+
+// Commands touching branches, links, profiles, types, tasks and branch states
+const SCENARIO: Array<Record<string, unknown>> = [
+  { type: 'create-profile', name: 'Research', settings: { defaultConfidence: 0.6 } },
+  { type: 'create-branch', branchId: 'main' },
+  { type: 'focus', branchId: 'main' },
+  { type: 'add-thought', branchId: 'main', content: 'Redis cache invalidation is fragile and slow' },
+  { type: 'add-thought', branchId: 'main', content: 'A write-through cache keeps entries fresh. TODO benchmark the cache @alice' },
+  { type: 'fork-branch', sourceBranchId: 'main', atThoughtId: 'thought-1', newBranchId: 'alt' },
+  { type: 'add-thought', branchId: 'alt', content: 'Postgres views are fast enough for reads', profileId: 'profile-research' },
+  { type: 'add-thought', branchId: 'alt', content: 'Great results, latency improved a lot', thoughtType: 'claim', fields: { evidence: 'load test' } },
+  { type: 'edit-thought', thoughtId: 'thought-1', content: 'Redis cache invalidation is manageable', reason: 'measured it' },
+  { type: 'define-thought-type', name: 'incident', aliases: ['outage'] },
+  { type: 'suspend-branch', branchId: 'alt', reason: 'waiting on data' }
+];
+
+describe('server history', () => {
+  let root: string;
+  let client: Client;
+
+  beforeEach(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'branch-thinking-server-'));
+    client = await startServer(root);
+    for (const command of SCENARIO) await run(client, command);
+  });
+
+  afterEach(async () => {
+    await client.close();
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  it('rebuilds the saved workspace from the journal', async () => {
+    // Reopening recomputes derived state in full, as a replay does, instead of incrementally
+    await client.close();
+    client = await startServer(root);
+    const saved = await exportWorkspace(client);
+    await run(client, { type: 'remove-policy-rule', rule: { type: 'replay-journal' } });
+    await run(client, { type: 'add-policy-rule', rule: { type: 'replay-journal', safe: true } });
+    const replay = JSON.parse(await run(client, { type: 'replay-journal' }));
+    assert.equal(replay.status, 'rebuilt');
+    assert.deepEqual(await exportWorkspace(client), saved);
+  });
+
+  it('returns to the same workspace after undoing and redoing every command', async () => {
+    const snapshots = [await exportWorkspace(client)];
+    for (let i = 0; i < 4; i++) {
+      assert.equal(JSON.parse(await run(client, { type: 'undo' })).status, 'undone');
+      snapshots.push(await exportWorkspace(client));
+    }
+    assert.notDeepEqual(snapshots[4], snapshots[0]);
+    for (let i = 3; i >= 0; i--) {
+      assert.equal(JSON.parse(await run(client, { type: 'redo' })).status, 'redone');
+      assert.deepEqual(await exportWorkspace(client), snapshots[i]);
+    }
+  });
+
+  it('keeps the workspace as it was when a command fails part way', async () => {
+    const before = await exportWorkspace(client);
+    const failed = JSON.parse(await run(client, {
+      type: 'add-thought',
+      thoughts: [{ branchId: 'main', content: 'A valid first item' }, { branchId: 'new', parentBranchId: 'missing', content: 'An orphan' }]
+    }));
+    assert.equal(failed.status, 'failed');
+    assert.deepEqual(await exportWorkspace(client), before);
+    // The failed command left no undo entry behind
+    assert.equal(JSON.parse(await run(client, { type: 'undo' })).command, 'suspend-branch');
+  });
+});
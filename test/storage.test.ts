@@ -0,0 +1,209 @@
+// Storage adapters: the JSON and SQLite backends must round-trip the same state
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { StorageAdapter, StorageBackend, EmbeddingCacheEntries, JsonFileStorageAdapter, STORAGE_BACKENDS, WORKSPACE_SNAPSHOT_VERSION, migrateStorage } from '../src/storage.js';
+import { SqliteStorageAdapter } from '../src/sqliteStorage.js';
+import { TaskItem, ThoughtBranch, ThoughtData, WorkspaceSnapshot } from '../src/types.js';
+
+// An adapter for `backend` with its files under `dir`, named the way workspaces name them
+function createAdapter(backend: StorageBackend, dir: string): StorageAdapter {
+  return backend === 'sqlite'
+    ? new SqliteStorageAdapter(path.join(dir, 'knowledge.db'))
+    : new JsonFileStorageAdapter({
+        storePath: path.join(dir, 'knowledge.json'),
+        taskStorePath: path.join(dir, 'tasks.json'),
+        embeddingCachePath: path.join(dir, 'embeddings-cache.json')
+      });
+}
+
+function thought(id: string, branchId: string, content: string, extra: Partial<ThoughtData> = {}): ThoughtData {
+  return {
+    id,
+    content,
+    branchId,
+    timestamp: new Date('2025-03-01T10:00:00.000Z'),
+    metadata: { type: 'analysis', confidence: 0.8, keyPoints: ['cache'] },
+    ...extra
+  };
+}
+
+function branch(id: string, thoughts: ThoughtData[], extra: Partial<ThoughtBranch> = {}): ThoughtBranch {
+  return { id, state: 'active', priority: 1, confidence: 1, thoughts, insights: [], crossRefs: [], ...extra };
+}
+
+// A workspace using every kind of state a snapshot holds
+function sampleSnapshot(): WorkspaceSnapshot {
+  return {
+    version: WORKSPACE_SNAPSHOT_VERSION,
+    savedAt: '2025-03-01T12:00:00.000Z',
+    activeBranchId: 'main',
+    counters: { thought: 4, insight: 1, crossRef: 1, snippet: 1 },
+    branches: [
+      branch('main', [
+        thought('thought-1', 'main', 'Redis cache invalidation is fragile', {
+          score: 1.2,
+          belief: 0.64,
+          suggestedKeyPoints: [{ phrase: 'redis cache invalidation', score: 9.5 }],
+          crossRefs: [{ toThoughtId: 'thought-2', score: 0.82, type: 'semantic' }]
+        }),
+        thought('thought-2', 'main', 'A write-through cache keeps entries fresh', {
+          profileId: 'profile-research',
+          linkedThoughts: [
+            { toThoughtId: 'thought-1', type: 'contradicts', reason: 'fresh entries need no invalidation' },
+            { toThoughtId: 'thought-3', type: 'related' }
+          ]
+        })
+      ], {
+        insights: [{
+          id: 'insight-1',
+          type: 'observation',
+          content: 'Branch topics: redis cache (40%)',
+          context: ['thought-1', 'thought-2'],
+          applicabilityScore: 1,
+          supportingEvidence: { data: ['redis cache'] },
+          analyzer: 'topics',
+          analyzerKey: 'topics'
+        }],
+        crossRefs: [{
+          id: 'xref-1',
+          fromBranch: 'main',
+          toBranch: 'alt',
+          type: 'alternative',
+          reason: 'Forked from main at thought-1',
+          strength: 1,
+          touchpoints: [{ fromThought: 'thought-1', toThought: 'thought-3', connection: 'fork point' }]
+        }]
+      }),
+      branch('alt', [thought('thought-3', 'alt', 'Postgres views are fast enough')], {
+        parentBranchId: 'main',
+        state: 'suspended',
+        stateHistory: [{ from: 'active', to: 'suspended', reason: 'waiting on data', actor: 'alice', timestamp: '2025-03-01T11:00:00.000Z' }]
+      })
+    ],
+    archivedBranches: [
+      branch('old', [thought('thought-4', 'old', 'Memcached was ruled out')], {
+        archived: { at: '2025-02-01T09:00:00.000Z', actor: 'bob', reason: 'superseded' }
+      })
+    ],
+    rejectedLinks: [{ fromThoughtId: 'thought-1', toThoughtId: 'thought-3', type: 'supports', actor: 'alice', timestamp: '2025-03-01T11:30:00.000Z' }],
+    thoughtTypes: { strictness: 'warn', types: [{ name: 'analysis', aliases: [], description: 'Examination of a problem', requiredFields: [] }] },
+    snippets: [{ id: 'snippet-1', content: 'cache.set(key, value)', tags: ['redis'], created: new Date('2025-03-01T10:30:00.000Z'), author: 'alice' }],
+    profiles: [{ id: 'profile-research', name: 'Research', settings: { defaultConfidence: 0.6 } }]
+  };
+}
+
+function sampleTasks(): TaskItem[] {
+  return [
+    { id: 'task-main-thought-2-0', content: 'benchmark the cache', branchId: 'main', thoughtId: 'thought-2', status: 'open', type: 'TODO', assignee: 'alice', due: '2025-04-01' },
+    { id: 'task-alt-1', content: 'collect query plans', branchId: 'alt', status: 'closed', auditTrail: [{ action: 'closed', user: 'bob', timestamp: '2025-03-02T08:00:00.000Z' }] }
+  ];
+}
+
+function sampleEmbeddings(): EmbeddingCacheEntries {
+  return {
+    abc123: { hash: 'abc123', embedding: [0.25, -0.5, 0.125] },
+    def456: { hash: 'def456', embedding: [1, 0, -1] }
+  };
+}
+
+for (const backend of STORAGE_BACKENDS) {
+  describe(`${backend} storage`, () => {
+    let dir: string;
+    let adapter: StorageAdapter;
+
+    beforeEach(async () => {
+      dir = await fs.mkdtemp(path.join(os.tmpdir(), `branch-thinking-${backend}-`));
+      adapter = createAdapter(backend, dir);
+    });
+
+    afterEach(async () => {
+      await adapter.close();
+      await fs.rm(dir, { recursive: true, force: true });
+    });
+
+    it('is empty before anything is saved', async () => {
+      assert.equal(await adapter.loadWorkspace(), null);
+      assert.deepEqual(await adapter.loadTasks(), []);
+      assert.deepEqual(await adapter.loadEmbeddings(), {});
+    });
+
+    it('round-trips a workspace', async () => {
+      await adapter.saveWorkspace(sampleSnapshot());
+      assert.deepEqual(await adapter.loadWorkspace(), sampleSnapshot());
+    });
+
+    it('keeps the workspace after it is closed and reopened', async () => {
+      await adapter.saveWorkspace(sampleSnapshot());
+      await adapter.saveTasks(sampleTasks());
+      await adapter.saveEmbeddings(sampleEmbeddings());
+      await adapter.close();
+      adapter = createAdapter(backend, dir);
+      assert.deepEqual(await adapter.loadWorkspace(), sampleSnapshot());
+      assert.deepEqual(await adapter.loadTasks(), sampleTasks());
+      assert.deepEqual(await adapter.loadEmbeddings(), sampleEmbeddings());
+    });
+
+    it('saves changes, removals and reordering over an earlier save', async () => {
+      await adapter.saveWorkspace(sampleSnapshot());
+      const changed = sampleSnapshot();
+      const [main, alt] = changed.branches;
+      main.thoughts[0].content = 'Redis cache invalidation is manageable';
+      main.thoughts[1].linkedThoughts = [{ toThoughtId: 'thought-1', type: 'supports' }];
+      main.thoughts.pop();
+      main.insights = [];
+      changed.branches = [alt, main];
+      changed.archivedBranches = [];
+      changed.activeBranchId = 'alt';
+      changed.counters.thought = 5;
+      changed.snippets = [];
+      await adapter.saveWorkspace(changed);
+      assert.deepEqual(await adapter.loadWorkspace(), changed);
+    });
+
+    it('round-trips tasks, including removals', async () => {
+      await adapter.saveTasks(sampleTasks());
+      assert.deepEqual(await adapter.loadTasks(), sampleTasks());
+      const [first] = sampleTasks();
+      first.status = 'in_progress';
+      await adapter.saveTasks([first]);
+      assert.deepEqual(await adapter.loadTasks(), [first]);
+    });
+
+    it('round-trips embeddings, including removals', async () => {
+      await adapter.saveEmbeddings(sampleEmbeddings());
+      assert.deepEqual(await adapter.loadEmbeddings(), sampleEmbeddings());
+      const { abc123 } = sampleEmbeddings();
+      await adapter.saveEmbeddings({ abc123 });
+      assert.deepEqual(await adapter.loadEmbeddings(), { abc123 });
+    });
+  });
+}
+
+describe('migrateStorage', () => {
+  for (const from of STORAGE_BACKENDS) {
+    for (const to of STORAGE_BACKENDS.filter(b => b !== from)) {
+      it(`copies a workspace from ${from} to ${to}`, async () => {
+        const dir = await fs.mkdtemp(path.join(os.tmpdir(), `branch-thinking-migrate-`));
+        const source = createAdapter(from, path.join(dir, 'source'));
+        const target = createAdapter(to, path.join(dir, 'target'));
+        try {
+          await source.saveWorkspace(sampleSnapshot());
+          await source.saveTasks(sampleTasks());
+          await source.saveEmbeddings(sampleEmbeddings());
+          const copied = await migrateStorage(source, target);
+          assert.deepEqual(copied, { branches: 2, thoughts: 3, tasks: 2, embeddings: 2 });
+          assert.deepEqual(await target.loadWorkspace(), sampleSnapshot());
+          assert.deepEqual(await target.loadTasks(), sampleTasks());
+          assert.deepEqual(await target.loadEmbeddings(), sampleEmbeddings());
+        } finally {
+          await source.close();
+          await target.close();
+          await fs.rm(dir, { recursive: true, force: true });
+        }
+      });
+    }
+  }
+});
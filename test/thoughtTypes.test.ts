@@ -0,0 +1,77 @@
+// Thought types: required fields follow the registry's strictness, and type queries resolve through the registry
+import { describe, it, beforeEach, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { BranchManager } from '../src/branchManager.js';
+import { TYPE_STRICTNESS } from '../src/thoughtTypes.js';
+import { reviveSnapshot } from '../src/storage.js';
+
+describe('required thought fields', () => {
+  let manager: BranchManager;
+  let warnings: string[];
+
+  beforeEach(() => {
+    manager = new BranchManager();
+    warnings = [];
+    mock.method(console, 'error', (message: string) => { warnings.push(message); });
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  it('accepts a thought with its required fields in every mode', () => {
+    for (const strictness of TYPE_STRICTNESS) {
+      manager.setThoughtTypeStrictness(strictness);
+      const thought = manager.addThought({ content: 'Caching halves latency', type: 'claim', fields: { evidence: 'load test' } });
+      assert.deepEqual(thought.metadata.fields, { evidence: 'load test' });
+    }
+    assert.deepEqual(warnings, []);
+  });
+
+  it('rejects a missing field when strict', () => {
+    manager.setThoughtTypeStrictness('strict');
+    assert.throws(() => manager.addThought({ content: 'Caching halves latency', type: 'claim' }), /requires fields: evidence/);
+    assert.throws(() => manager.addThought({ content: 'The cache may go stale', type: 'concern' }), /requires fields: mitigation/);
+  });
+
+  it('accepts a missing field with a warning by default', () => {
+    const thought = manager.addThought({ content: 'Caching halves latency', type: 'claim' });
+    assert.equal(thought.metadata.type, 'claim');
+    assert.equal(warnings.length, 1);
+    assert.match(warnings[0], /claim is missing required fields: evidence/);
+  });
+
+  it('accepts a missing field silently when off', () => {
+    manager.setThoughtTypeStrictness('off');
+    const thought = manager.addThought({ content: 'Use Redis', type: 'choice' });
+    assert.equal(thought.metadata.type, 'decision');
+    assert.deepEqual(warnings, []);
+  });
+
+  it('applies the strictness to edits that drop a required field', async () => {
+    const thought = manager.addThought({ content: 'Caching halves latency', type: 'claim', fields: { evidence: 'load test' } });
+    manager.setThoughtTypeStrictness('strict');
+    await assert.rejects(manager.editThought(thought.id, { fields: { evidence: '' } }, { author: 'alice' }), /requires fields: evidence/);
+    manager.setThoughtTypeStrictness('off');
+    const { thought: edited } = await manager.editThought(thought.id, { fields: { evidence: '' } }, { author: 'alice' });
+    assert.equal(edited.metadata.fields, undefined);
+  });
+});
+
+describe('type queries', () => {
+  it('match registry types with uppercase letters by name and alias', async () => {
+    const manager = new BranchManager();
+    manager.restoreSnapshot(reviveSnapshot({
+      activeBranchId: 'main',
+      thoughtTypes: { strictness: 'warn', types: [{ name: 'Incident', aliases: ['Outage'], description: '', requiredFields: [] }] },
+      branches: [{
+        id: 'main', state: 'active', priority: 1, confidence: 1, insights: [], crossRefs: [],
+        thoughts: [{ id: 'thought-1', content: 'The cache cluster went down', branchId: 'main', timestamp: '2025-03-01T10:00:00.000Z', metadata: { type: 'Incident', confidence: 1, keyPoints: [] } }]
+      }]
+    }));
+    for (const text of ['type:incident', 'type:Incident', 'type:outage']) {
+      const { results } = await manager.queryThoughts(text);
+      assert.deepEqual(results.map(hit => hit.id), ['thought-1'], text);
+    }
+  });
+});